@@ -6,7 +6,20 @@ import { join } from 'path';
 import { initCommand } from './commands/init';
 import { createStartCommand } from './commands/start';
 import { pushCommand } from './commands/push';
+import { syncCommand } from './commands/sync';
+import { statusCommand } from './commands/status';
+import { lockCommand } from './commands/lock';
+import { unlockCommand } from './commands/unlock';
+import { locksCommand } from './commands/locks';
+import { doctorCommand } from './commands/doctor';
+import { checkCommand } from './commands/check';
+import { analyzeCommand } from './commands/analyze';
 import { connectCommand } from './commands/connect';
+import { disconnectCommand } from './commands/disconnect';
+import { contextCommand } from './commands/context';
+import { searchCommand } from './commands/search';
+import { mcpCommand } from './commands/mcp';
+import { templateCommand } from './commands/template';
 
 // Read version from package.json
 const packageJson = JSON.parse(readFileSync(join(__dirname, '../package.json'), 'utf8'));
@@ -22,7 +35,20 @@ program
 program.addCommand(initCommand);
 program.addCommand(createStartCommand());
 program.addCommand(pushCommand);
+program.addCommand(syncCommand);
+program.addCommand(statusCommand);
+program.addCommand(lockCommand);
+program.addCommand(unlockCommand);
+program.addCommand(locksCommand);
+program.addCommand(doctorCommand);
+program.addCommand(checkCommand);
+program.addCommand(analyzeCommand);
 program.addCommand(connectCommand);
+program.addCommand(disconnectCommand);
+program.addCommand(contextCommand);
+program.addCommand(searchCommand);
+program.addCommand(mcpCommand);
+program.addCommand(templateCommand);
 
 // Parse command line arguments
 program.parse();
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { Command } from 'commander';
+import { analyzeAgpProject } from '../utils/agp-analyze';
+import { logger } from '../utils/logger';
+import { parseMaxFiles } from './init';
+
+export const analyzeCommand = new Command('analyze')
+  .description('Re-run the project analyzer, refreshing generated knowledge without touching human edits')
+  .option('-f, --force', 'Overwrite architecture and pattern files that have no generated regions')
+  .option('--max-files <count>', 'Maximum number of knowledge files to generate (0 for no limit)', parseMaxFiles)
+  .action(async (options) => {
+    try {
+      const summary = await logger.withSpinner('Analyzing project', async () => {
+        return await analyzeAgpProject({
+          force: options.force || false,
+          maxFiles: options.maxFiles,
+        });
+      });
+
+      summary.created.forEach((file) => logger.success(`Created .agp/${file}`));
+      summary.updated.forEach((file) => logger.step(`Updated .agp/${file}`));
+
+      if (summary.skipped.length > 0) {
+        logger.warning(`Skipped ${summary.skipped.length} file(s) without generated regions:`);
+        summary.skipped.forEach((file) => logger.step(`.agp/${file}`));
+        logger.info('Use --force to regenerate architecture and pattern files; knowledge files are never overwritten.');
+      }
+
+      if (summary.knowledgeFiles < summary.scannedFiles) {
+        logger.warning(
+          `Generated knowledge for ${summary.knowledgeFiles} of ${summary.scannedFiles} files. Narrow the scope with .agpignore or raise --max-files.`,
+        );
+      }
+
+      logger.info(
+        `${summary.created.length} created, ${summary.updated.length} updated, ${summary.unchanged.length} unchanged`,
+      );
+    } catch (error) {
+      logger.error('Failed to analyze project:');
+      logger.error(error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,56 @@
+import { Command } from 'commander';
+import { checkKnowledgeFreshness } from '../utils/agp-check';
+import { logger } from '../utils/logger';
+
+export const checkCommand = new Command('check')
+  .description('List knowledge files whose source changed since they were written')
+  .option('--update', 'Mark stale and untracked knowledge as reviewed against the current source')
+  .option('--strict', 'Exit with a non-zero code when stale knowledge is found')
+  .option('--json', 'Print the results as JSON')
+  .action(async (options) => {
+    try {
+      const results = await checkKnowledgeFreshness({
+        update: options.update || false,
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(results, null, 2));
+      } else {
+        const stale = results.filter((result) => result.state === 'stale');
+        const missing = results.filter((result) => result.state === 'missing-source');
+        const untracked = results.filter((result) => result.state === 'untracked');
+
+        for (const result of stale) {
+          const since = result.analyzedCommit ? ` since ${result.analyzedCommit.slice(0, 7)}` : '';
+          const note = result.updated ? ' (marked as reviewed)' : '';
+          logger.warning(`${result.knowledgeFile}: ${result.source} changed${since}${note}`);
+        }
+
+        for (const result of missing) {
+          logger.error(`${result.knowledgeFile}: ${result.source} no longer exists`);
+        }
+
+        for (const result of untracked) {
+          const note = result.updated ? ' (source hash recorded)' : '';
+          logger.step(`${result.knowledgeFile}: no source hash recorded${note}`);
+        }
+
+        if (stale.length === 0 && missing.length === 0) {
+          logger.success(`All ${results.length - untracked.length} tracked knowledge file(s) are up to date`);
+        } else if (!options.update) {
+          logger.info('Review the knowledge above, then run "agp check --update" to mark it as up to date.');
+        }
+      }
+
+      const outdated = results.filter(
+        (result) => !result.updated && result.state !== 'fresh' && result.state !== 'untracked',
+      );
+      if (options.strict && outdated.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      logger.error('Failed to check AGP knowledge:');
+      logger.error(error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
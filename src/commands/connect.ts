@@ -1,28 +1,96 @@
-import { Command } from 'commander';
-import { connectToAiTool } from '../utils/agp-connect';
+import { Command, InvalidArgumentError } from 'commander';
+import { ConnectMode } from '../types';
+import { connectToAiTool, ConnectResult, getToolAdapters, refreshConnections } from '../utils/agp-connect';
 import { logger } from '../utils/logger';
 
 export const connectCommand = new Command('connect')
   .description('Configure AGP for specific AI tools')
-  .argument('<tool>', 'AI tool to configure (claude, cursor, chatgpt)')
+  .argument(
+    '[tool]',
+    `AI tool to configure (${getToolAdapters()
+      .map((adapter) => adapter.name)
+      .join(', ')})`,
+  )
   .option('--config <path>', 'Custom configuration file path')
-  .action(async (tool, options) => {
+  .option(
+    '--mode <mode>',
+    'inline copies .agp/instructions.md into the tool files, reference points the tool at it',
+    parseConnectMode,
+  )
+  .option('--refresh', 'Regenerate the files of every connected tool')
+  .action(async (tool: string | undefined, options) => {
     try {
-      const supportedTools = ['claude', 'cursor', 'chatgpt'];
+      if (options.refresh) {
+        if (tool || options.mode || options.config) {
+          throw new Error('--refresh regenerates the recorded connections; run "agp connect <tool>" to change one');
+        }
 
-      if (!supportedTools.includes(tool.toLowerCase())) {
-        throw new Error(`Unsupported tool: ${tool}. Supported tools: ${supportedTools.join(', ')}`);
+        const results = await logger.withSpinner('Refreshing connected tools', async () => {
+          return await refreshConnections();
+        });
+        if (results.length === 0) {
+          throw new Error('No AI tools are connected yet. Run "agp connect <tool>" first.');
+        }
+        results.forEach((result) => printConnectResult(result, true));
+        return;
+      }
+
+      if (!tool) {
+        throw new Error('Name the AI tool to configure, or pass --refresh to regenerate connected tools.');
       }
 
-      await logger.withSpinner(`Configuring ${tool}`, async () => {
-        await connectToAiTool({
+      const result = await logger.withSpinner(`Configuring ${tool}`, async () => {
+        return await connectToAiTool({
           tool: tool.toLowerCase(),
           configPath: options.config,
+          mode: options.mode,
         });
       });
+
+      printConnectResult(result, false);
     } catch (error) {
       logger.error('Failed to configure AGP:');
       logger.error(error instanceof Error ? error.message : 'Unknown error');
       process.exit(1);
     }
   });
+
+function parseConnectMode(value: string): ConnectMode {
+  if (value !== 'inline' && value !== 'reference') {
+    throw new InvalidArgumentError('Must be inline or reference.');
+  }
+  return value;
+}
+
+/**
+ * Print what connecting changed; `prefixTool` labels each file when several tools are listed
+ */
+export function printConnectResult(result: ConnectResult, prefixTool: boolean): void {
+  const prefix = prefixTool ? `${result.tool}: ` : '';
+
+  for (const file of result.files) {
+    if (file.status === 'unchanged') {
+      logger.step(`${prefix}${file.path} is up to date`);
+    } else if (file.status === 'removed') {
+      logger.step(`${prefix}Removed ${file.path}`);
+    } else {
+      logger.success(`${prefix}${file.status === 'created' ? 'Created' : 'Updated'} ${file.path}`);
+    }
+  }
+}
+
+/**
+ * Bring connected tools in line after the AGP instructions changed. Only changed files
+ * are listed, and a failure only warns: the command that triggered it already succeeded.
+ */
+export async function refreshConnectedTools(): Promise<void> {
+  try {
+    for (const result of await refreshConnections()) {
+      printConnectResult({ ...result, files: result.files.filter((file) => file.status !== 'unchanged') }, true);
+    }
+  } catch (error) {
+    logger.warning(
+      `Could not refresh connected AI tools: ${error instanceof Error ? error.message : 'Unknown error'}. Run "agp connect --refresh" to retry.`,
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { Command, InvalidArgumentError } from 'commander';
+import * as fs from 'fs-extra';
+import { buildContextPack, copyToClipboard } from '../utils/agp-context';
+import { logger } from '../utils/logger';
+
+export const contextCommand = new Command('context')
+  .description('Pack the AGP instructions and knowledge for the given files into one document for any assistant')
+  .argument('<paths...>', 'Source files, directories or globs to collect knowledge for, most important first')
+  .option('--format <format>', 'Output format (markdown, xml)', parseFormat, 'markdown')
+  .option('--budget <tokens>', 'Maximum estimated tokens; lower-priority documents are cut first', parseBudget, 32000)
+  .option('-o, --output <file>', 'Write the pack to a file')
+  .option('--copy', 'Copy the pack to the clipboard')
+  .option('--no-instructions', 'Leave out .agp/instructions.md')
+  .option('--no-session', 'Leave out your session file')
+  .action(async (paths: string[], options) => {
+    try {
+      const pack = await buildContextPack({
+        paths,
+        format: options.format,
+        budget: options.budget,
+        instructions: options.instructions,
+        session: options.session,
+      });
+
+      // Without a destination the pack alone goes to stdout, so it can be piped; notes go to stderr
+      if (!options.output && !options.copy) {
+        process.stdout.write(pack.content);
+        pack.unmatched.forEach((requested) => console.error(`! No knowledge found for ${requested}`));
+        return;
+      }
+
+      if (options.output) {
+        await fs.outputFile(options.output, pack.content);
+        logger.success(`Wrote ${options.output}`);
+      }
+      if (options.copy) {
+        await copyToClipboard(pack.content);
+        logger.success('Copied the context pack to the clipboard');
+      }
+
+      for (const document of pack.documents) {
+        logger.step(`${document.path} (~${document.tokens} tokens${document.truncated ? ', truncated' : ''})`);
+      }
+      for (const requested of pack.unmatched) {
+        logger.warning(`No knowledge found for ${requested}`);
+      }
+      if (pack.omitted.length > 0) {
+        logger.warning(`Left out ${pack.omitted.length} document(s) to stay within ${options.budget} tokens`);
+      }
+      logger.info(`~${pack.tokens} tokens in ${pack.documents.length} document(s)`);
+    } catch (error) {
+      logger.error('Failed to build context pack:');
+      logger.error(error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
+
+function parseFormat(value: string): 'markdown' | 'xml' {
+  if (value !== 'markdown' && value !== 'xml') {
+    throw new InvalidArgumentError('Must be markdown or xml.');
+  }
+  return value;
+}
+
+function parseBudget(value: string): number {
+  const budget = Number(value);
+  if (!Number.isInteger(budget) || budget <= 0) {
+    throw new InvalidArgumentError('Must be a positive integer.');
+  }
+  return budget;
+}
@@ -0,0 +1,33 @@
+import { Command } from 'commander';
+import { disconnectAiTool } from '../utils/agp-connect';
+import { logger } from '../utils/logger';
+
+export const disconnectCommand = new Command('disconnect')
+  .description('Remove the AGP configuration "agp connect" added for an AI tool')
+  .argument('<tool>', 'AI tool to disconnect')
+  .option('--config <path>', 'Custom configuration file path used when connecting')
+  .action(async (tool, options) => {
+    try {
+      const result = await disconnectAiTool({
+        tool: tool.toLowerCase(),
+        configPath: options.config,
+      });
+
+      if (result.files.length === 0) {
+        logger.info(`Nothing to remove for ${result.tool}`);
+        return;
+      }
+
+      for (const file of result.files) {
+        if (file.status === 'removed') {
+          logger.success(`Removed ${file.path}`);
+        } else {
+          logger.success(`Removed the AGP section from ${file.path}`);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to disconnect AGP:');
+      logger.error(error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,68 @@
+import { Command } from 'commander';
+import { DoctorCheckResult, runAgpDoctor } from '../utils/agp-doctor';
+import { logger } from '../utils/logger';
+import { parseSha256 } from './init';
+
+export const doctorCommand = new Command('doctor')
+  .description('Diagnose the AGP setup and optionally repair it')
+  .option('--fix', 'Repair problems that can be fixed safely')
+  .option(
+    '--template <source>',
+    'Template repository or local template used to restore missing files (append #ref to pin a branch, tag or commit)',
+  )
+  .option('--template-ref <ref>', 'Template branch, tag or commit to use')
+  .option('--template-sha256 <hash>', 'Expected SHA-256 of the template archive', parseSha256)
+  .action(async (options) => {
+    try {
+      const results = await runAgpDoctor({
+        fix: options.fix || false,
+        templateUrl: options.template,
+        templateRef: options.templateRef,
+        templateSha256: options.templateSha256,
+      });
+
+      logger.startGroup('AGP Doctor');
+      results.forEach(printCheckResult);
+
+      const remaining = results.filter((result) => result.status === 'error' && !result.fixed);
+      const fixable = results.filter((result) => result.status !== 'ok' && result.fixable && !result.fixed);
+
+      if (remaining.length === 0) {
+        logger.endGroup('AGP setup is healthy');
+        return;
+      }
+
+      logger.endGroup();
+      logger.error(`${remaining.length} problem(s) remaining`);
+      if (!options.fix && fixable.length > 0) {
+        logger.step(`Run "agp doctor --fix" to repair ${fixable.length} of them automatically`);
+      }
+      process.exit(1);
+    } catch (error) {
+      logger.error('Failed to run AGP doctor:');
+      logger.error(error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
+
+function printCheckResult(result: DoctorCheckResult): void {
+  const line = `${result.title}: ${result.message}`;
+
+  if (result.status === 'ok') {
+    logger.success(line);
+  } else if (result.status === 'skipped') {
+    logger.step(line);
+  } else if (result.status === 'warning') {
+    logger.warning(line);
+  } else {
+    logger.error(line);
+  }
+
+  if (result.fixMessage) {
+    if (result.fixed) {
+      logger.success(`  Fixed: ${result.fixMessage}`);
+    } else {
+      logger.error(`  ${result.fixMessage}`);
+    }
+  }
+}
@@ -1,16 +1,28 @@
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import { initializeAgpDirectory } from '../utils/agp-init';
 import { logger } from '../utils/logger';
+import { normalizeSha256 } from '../utils/template-manager';
 
 export const initCommand = new Command('init')
   .description('Initialize AGP system in the current project')
   .option('-f, --force', 'Force initialization even if .agp directory already exists')
-  .option('--template <url>', 'Use custom template repository URL')
+  .option(
+    '--template <source>',
+    'Use a custom template repository URL, local directory, .zip or .tar.gz (append #ref to pin a branch, tag or commit)',
+  )
+  .option('--template-ref <ref>', 'Template branch, tag or commit to use')
+  .option('--template-sha256 <hash>', 'Expected SHA-256 of the template archive', parseSha256)
+  .option('--var <name=value>', 'Answer a template prompt without asking (repeatable)', parseVariable, {})
+  .option('--max-files <count>', 'Maximum number of knowledge files to generate (0 for no limit)', parseMaxFiles)
   .action(async (options) => {
     try {
       await initializeAgpDirectory({
         force: options.force || false,
         templateUrl: options.template,
+        templateRef: options.templateRef,
+        templateSha256: options.templateSha256,
+        variables: options.var,
+        maxFiles: options.maxFiles,
       });
     } catch (error) {
       logger.error('Failed to initialize AGP system:');
@@ -18,3 +30,27 @@ export const initCommand = new Command('init')
       process.exit(1);
     }
   });
+
+export function parseMaxFiles(value: string): number {
+  const maxFiles = Number(value);
+  if (!Number.isInteger(maxFiles) || maxFiles < 0) {
+    throw new InvalidArgumentError('Must be a non-negative integer.');
+  }
+  return maxFiles;
+}
+
+export function parseVariable(value: string, variables: Record<string, string>): Record<string, string> {
+  const match = value.match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/s);
+  if (!match) {
+    throw new InvalidArgumentError('Must be name=value.');
+  }
+  return { ...variables, [match[1]!]: match[2]! };
+}
+
+export function parseSha256(value: string): string {
+  const hash = normalizeSha256(value);
+  if (!/^[0-9a-f]{64}$/.test(hash)) {
+    throw new InvalidArgumentError('Must be a 64-character hex SHA-256 digest.');
+  }
+  return hash;
+}
@@ -0,0 +1,25 @@
+import { Command } from 'commander';
+import { lockFiles } from '../utils/agp-locks';
+import { logger } from '../utils/logger';
+
+export const lockCommand = new Command('lock')
+  .description('Lock files so teammates know you are working on them')
+  .argument('<files...>', 'Files or directories to lock')
+  .option('-r, --reason <reason>', 'Why you are holding the lock')
+  .option('-f, --force', 'Lock even if a teammate already holds the lock')
+  .action(async (files: string[], options) => {
+    try {
+      const acquired = await lockFiles({
+        files,
+        reason: options.reason,
+        force: options.force || false,
+      });
+
+      acquired.forEach((lock) => logger.success(`Locked ${lock.path}`));
+      logger.step('Run "agp push" to share your locks with the team');
+    } catch (error) {
+      logger.error('Failed to lock files:');
+      logger.error(error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
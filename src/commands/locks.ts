@@ -0,0 +1,31 @@
+import { Command } from 'commander';
+import { listLocks } from '../utils/agp-locks';
+import { logger } from '../utils/logger';
+
+export const locksCommand = new Command('locks')
+  .description('List file locks held by the team')
+  .option('--mine', 'Only show locks you hold')
+  .action(async (options) => {
+    try {
+      const { user, locks, conflicts } = await listLocks();
+      const visibleLocks = options.mine ? locks.filter((lock) => lock.owner === user) : locks;
+
+      if (visibleLocks.length === 0) {
+        logger.success('No active locks');
+        return;
+      }
+
+      for (const lock of visibleLocks) {
+        const owner = lock.owner === user ? `${lock.owner} (you)` : lock.owner;
+        logger.step(`${lock.path} - ${owner}, since ${lock.lockedAt}${lock.reason ? ` - ${lock.reason}` : ''}`);
+      }
+
+      for (const conflict of conflicts) {
+        logger.warning(`${conflict.path} is locked by multiple users: ${conflict.owners.join(', ')}`);
+      }
+    } catch (error) {
+      logger.error('Failed to list locks:');
+      logger.error(error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
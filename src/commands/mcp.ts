@@ -0,0 +1,17 @@
+import { Command } from 'commander';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { createAgpMcpServer } from '../utils/agp-mcp';
+
+export const mcpCommand = new Command('mcp')
+  .description('Serve AGP knowledge, sessions and locks to AI assistants over the Model Context Protocol (stdio)')
+  .action(async () => {
+    // stdout carries protocol messages only, so failures are reported on stderr
+    try {
+      const packageJson = JSON.parse(readFileSync(join(__dirname, '../../package.json'), 'utf8'));
+      await createAgpMcpServer(packageJson.version).listen();
+    } catch (error) {
+      console.error(`Failed to run the AGP MCP server: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,69 @@
+import { Command, InvalidArgumentError } from 'commander';
+import { SearchSection } from '../types';
+import { searchKnowledge, SEARCH_SECTIONS } from '../utils/agp-search';
+import { logger } from '../utils/logger';
+
+export const searchCommand = new Command('search')
+  .description('Search AGP knowledge, patterns, architecture and sessions')
+  .argument('<query...>', 'Words to search for')
+  .option(
+    '-s, --section <section>',
+    `Only search a section (${SEARCH_SECTIONS.join(', ')}); repeatable`,
+    collectSection,
+    [] as SearchSection[],
+  )
+  .option('-n, --limit <count>', 'Maximum number of results', parseLimit, 10)
+  .option('--rebuild', 'Rebuild the search index from scratch')
+  .option('--json', 'Print the results as JSON')
+  .action(async (query: string[], options) => {
+    try {
+      const results = await searchKnowledge({
+        query: query.join(' '),
+        sections: options.section,
+        limit: options.limit,
+        rebuild: options.rebuild || false,
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(results, null, 2));
+        return;
+      }
+
+      if (results.length === 0) {
+        logger.info(`No results for "${query.join(' ')}"`);
+        return;
+      }
+
+      for (const result of results) {
+        logger.info(`${result.path}:${result.line}  ${result.title}`);
+        if (result.source) {
+          logger.step(`Source: ${result.source}`);
+        }
+        if (result.heading) {
+          logger.step(`Under: ${result.heading}`);
+        }
+        console.log(`    ${result.snippet}`);
+        console.log();
+      }
+    } catch (error) {
+      logger.error('Failed to search AGP knowledge:');
+      logger.error(error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
+
+function collectSection(value: string, sections: SearchSection[]): SearchSection[] {
+  const section = value.toLowerCase() as SearchSection;
+  if (!SEARCH_SECTIONS.includes(section)) {
+    throw new InvalidArgumentError(`Must be one of ${SEARCH_SECTIONS.join(', ')}.`);
+  }
+  return [...sections, section];
+}
+
+function parseLimit(value: string): number {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new InvalidArgumentError('Must be a positive integer.');
+  }
+  return limit;
+}
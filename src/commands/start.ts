@@ -5,16 +5,29 @@ import { logger } from '../utils/logger';
 export function createStartCommand(): Command {
   const command = new Command('start');
 
-  command.description('Start or resume AGP session').action(async () => {
-    try {
-      await logger.withSpinner('Starting session', async () => {
-        await startAgpSession();
-      });
-    } catch (error) {
-      logger.error(`Failed to start AGP session: ${error instanceof Error ? error.message : String(error)}`);
-      process.exit(1);
-    }
-  });
+  command
+    .description('Start or resume AGP session')
+    .argument('[files...]', "Files you are about to work on (checked against teammates' locks)")
+    .action(async (files: string[]) => {
+      try {
+        const result = await logger.withSpinner('Starting session', async () => {
+          return await startAgpSession({ files });
+        });
+
+        for (const lock of result.lockedByOthers) {
+          logger.warning(
+            `${lock.path} is locked by ${lock.owner} since ${lock.lockedAt}${lock.reason ? ` (${lock.reason})` : ''}`,
+          );
+        }
+
+        for (const conflict of result.lockConflicts) {
+          logger.warning(`${conflict.path} is locked by multiple users: ${conflict.owners.join(', ')}`);
+        }
+      } catch (error) {
+        logger.error(`Failed to start AGP session: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
 
   return command;
 }
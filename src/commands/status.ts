@@ -0,0 +1,119 @@
+import { Command } from 'commander';
+import { AgpStatusReport, getAgpStatus } from '../utils/agp-status';
+import { logger } from '../utils/logger';
+
+export const statusCommand = new Command('status')
+  .description('Show session, pending knowledge and submodule drift for AGP')
+  .option('--no-fetch', 'Compare against the last fetched remote state without contacting the remote')
+  .option('--json', 'Print the status report as JSON')
+  .action(async (options) => {
+    try {
+      const report = await getAgpStatus({
+        fetch: options.fetch,
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      printStatusReport(report);
+    } catch (error) {
+      logger.error('Failed to read AGP status:');
+      logger.error(error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
+
+function printStatusReport(report: AgpStatusReport): void {
+  logger.startGroup('Session');
+  if (report.session.user) {
+    logger.step(`User: ${report.session.user}`);
+    logger.step(`File: ${report.session.file || '(none)'}`);
+    if (!report.session.exists) {
+      logger.warning('Session file is missing. Run "agp start" to recreate it.');
+    }
+  } else {
+    logger.warning('No active session. Run "agp start" to begin one.');
+  }
+
+  logger.startGroup('Pending knowledge');
+  if (report.pending.total === 0) {
+    logger.success('No uncommitted changes in .agp');
+  } else {
+    logger.info(`${report.pending.total} uncommitted file(s) in .agp`);
+    for (const [group, files] of Object.entries(report.pending.groups)) {
+      if (files.length === 0) continue;
+      logger.step(`${group} (${files.length})`);
+      files.forEach((file: string) => console.log(`    ${file}`));
+    }
+  }
+
+  logger.startGroup('Remote');
+  const { remote } = report;
+  if (!remote.fetched && remote.state !== 'no-remote') {
+    logger.warning('Remote was not fetched; showing the last known state');
+  }
+  switch (remote.state) {
+    case 'no-remote':
+      logger.warning('.agp has no "origin" remote. Run "agp init" to connect one.');
+      break;
+    case 'unknown':
+      logger.warning(`Could not compare with ${remote.ref}`);
+      break;
+    case 'up-to-date':
+      logger.success(`Up to date with ${remote.ref}`);
+      break;
+    case 'ahead':
+      logger.warning(`Ahead of ${remote.ref} by ${remote.ahead} commit(s). Run "agp push" to share them.`);
+      break;
+    case 'behind':
+      logger.warning(`Behind ${remote.ref} by ${remote.behind} commit(s). Run "agp sync" to pull them.`);
+      break;
+    case 'diverged':
+      logger.warning(
+        `Diverged from ${remote.ref} (${remote.ahead} ahead, ${remote.behind} behind). Run "agp sync" to integrate.`,
+      );
+      break;
+  }
+
+  logger.startGroup('Submodule pointer');
+  const { pointer } = report;
+  const short = (sha: string | null) => (sha ? sha.slice(0, 7) : 'none');
+  switch (pointer.state) {
+    case 'not-a-submodule':
+      logger.warning('.agp is not registered as a submodule in the parent repository');
+      break;
+    case 'current':
+      logger.success(`Parent repository points at ${short(pointer.actual)}`);
+      break;
+    case 'staged':
+      logger.warning(`Pointer update to ${short(pointer.actual)} is staged but not committed in the parent repository`);
+      break;
+    case 'stale':
+      logger.warning(
+        `Parent repository points at ${short(pointer.recorded)}, but .agp is at ${short(pointer.actual)}. Run "agp push" or "agp sync" to update it.`,
+      );
+      break;
+  }
+
+  logger.startGroup('Connected tools');
+  if (report.connections.length === 0) {
+    logger.step('No AI tools connected. Run "agp connect <tool>" to set one up.');
+  }
+  for (const connection of report.connections) {
+    const label = `${connection.tool} (${connection.mode})`;
+    if (connection.error) {
+      logger.warning(`${label}: ${connection.error}`);
+    } else if (connection.outdated.length > 0) {
+      logger.warning(`${label}: ${connection.outdated.length} file(s) out of date`);
+      connection.outdated.forEach((file) => console.log(`    ${file}`));
+    } else {
+      logger.success(`${label} is up to date`);
+    }
+  }
+  if (report.connections.some((connection) => connection.outdated.length > 0)) {
+    logger.step('Run "agp connect --refresh" to regenerate them.');
+  }
+  logger.endGroup();
+}
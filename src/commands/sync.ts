@@ -0,0 +1,49 @@
+import { Command } from 'commander';
+import { syncAgpKnowledge } from '../utils/agp-sync';
+import { logger } from '../utils/logger';
+import { refreshConnectedTools } from './connect';
+
+export const syncCommand = new Command('sync')
+  .alias('pull')
+  .description("Fetch teammates' AGP knowledge and integrate it with your local changes")
+  .option('--strategy <strategy>', 'How to integrate local knowledge commits (rebase, merge)', 'rebase')
+  .action(async (options) => {
+    try {
+      if (!['rebase', 'merge'].includes(options.strategy)) {
+        throw new Error(`Unsupported strategy: ${options.strategy}. Supported strategies: rebase, merge`);
+      }
+
+      const result = await logger.withSpinner('Syncing AGP knowledge', async () => {
+        return await syncAgpKnowledge({
+          strategy: options.strategy,
+        });
+      });
+
+      if (result.integrated === 'up-to-date') {
+        logger.success(`AGP knowledge is up to date with origin/${result.branch}`);
+      } else {
+        logger.success(`Pulled ${result.incoming} commit(s) from origin/${result.branch} (${result.integrated})`);
+      }
+
+      if (result.outgoing > 0) {
+        logger.step(`${result.outgoing} local knowledge commit(s) not pushed yet. Run "agp push" to share them.`);
+      }
+
+      for (const conflict of result.lockConflicts) {
+        logger.warning(`Lock conflict: ${conflict.path} is locked by ${conflict.owners.join(', ')}`);
+      }
+
+      if (result.pointerUpdated) {
+        logger.step('Updated AGP submodule pointer in the parent repository');
+      }
+
+      // Teammates' commits may have changed the instructions connected tools copy
+      if (result.incoming > 0) {
+        await refreshConnectedTools();
+      }
+    } catch (error) {
+      logger.error('Failed to sync AGP knowledge:');
+      logger.error(error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,151 @@
+import { Command } from 'commander';
+import {
+  describePin,
+  scaffoldTemplate,
+  TemplateFileUpdate,
+  TemplateIssue,
+  updateAgpTemplate,
+  validateTemplate,
+} from '../utils/agp-template';
+import { logger } from '../utils/logger';
+import { refreshConnectedTools } from './connect';
+import { parseSha256, parseVariable } from './init';
+
+const updateCommand = new Command('update')
+  .description('Upgrade template-owned files to the latest template, keeping local customizations')
+  .option('--template <source>', 'Switch to another template repository or local template')
+  .option('--ref <ref>', 'Template branch, tag or commit to upgrade to')
+  .option('--template-sha256 <hash>', 'Expected SHA-256 of the template archive', parseSha256)
+  .option('--dry-run', 'Show what would change without writing anything')
+  .action(async (options) => {
+    try {
+      const result = await logger.withSpinner('Fetching template', async () => {
+        return await updateAgpTemplate({
+          templateUrl: options.template,
+          templateRef: options.ref,
+          templateSha256: options.templateSha256,
+          dryRun: options.dryRun || false,
+        });
+      });
+
+      const from = result.previous ? describePin(result.previous) : 'unpinned';
+      logger.info(`Template ${result.current.url}: ${from} -> ${describePin(result.current)}`);
+
+      if (!result.previous) {
+        logger.warning('No template version was recorded, so changed files were kept as they are.');
+        logger.step('The current template version is now pinned; future updates will merge changes.');
+      }
+
+      result.files.forEach(printFileUpdate);
+
+      const conflicts = result.files.filter((file) => file.status === 'conflict');
+      if (result.files.length === 0) {
+        logger.success('Template files are up to date');
+      } else if (conflicts.length > 0) {
+        logger.warning(`Resolve the conflict markers in ${conflicts.length} file(s), then run "agp push".`);
+      } else if (!options.dryRun) {
+        logger.success('Template updated. Review the changes, then run "agp push".');
+      }
+
+      // Skip conflicts so connected tools never copy conflict markers
+      const instructions = result.files.find((file) => file.path === 'instructions.md');
+      if (!options.dryRun && instructions && ['added', 'updated', 'merged'].includes(instructions.status)) {
+        await refreshConnectedTools();
+      }
+
+      if (options.dryRun) {
+        logger.info('Dry run: no files were changed.');
+      }
+    } catch (error) {
+      logger.error('Failed to update template:');
+      logger.error(error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
+
+function printFileUpdate(file: TemplateFileUpdate): void {
+  const target = `.agp/${file.path}`;
+
+  switch (file.status) {
+    case 'added':
+      logger.success(`Added ${target}`);
+      break;
+    case 'updated':
+      logger.success(`Updated ${target}`);
+      break;
+    case 'merged':
+      logger.success(`Merged template changes into ${target}`);
+      break;
+    case 'conflict':
+      logger.error(`Conflicts in ${target} (${file.conflicts})`);
+      break;
+    case 'removed':
+      logger.step(`Removed ${target} (dropped from the template)`);
+      break;
+    case 'kept':
+      logger.step(`Kept local ${target}`);
+      break;
+    case 'skipped':
+      logger.step(`Skipped ${target}`);
+      break;
+  }
+}
+
+const initCommand = new Command('init')
+  .description('Scaffold a new AGP template')
+  .argument('[directory]', 'Directory to create the template in', '.')
+  .option('--name <name>', 'Template name (defaults to the directory name)')
+  .option('-f, --force', 'Write into a non-empty directory, overwriting template files')
+  .action(async (directory: string, options) => {
+    try {
+      const files = await scaffoldTemplate({ directory, name: options.name, force: options.force || false });
+
+      files.forEach((file) => logger.success(`Created ${file}`));
+      logger.step('Edit the files and agp-template.json, then run "agp template validate".');
+    } catch (error) {
+      logger.error('Failed to scaffold template:');
+      logger.error(error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
+
+const validateCommand = new Command('validate')
+  .description('Check that a local template initializes cleanly')
+  .argument('[directory]', 'Template directory', '.')
+  .option('--var <name=value>', 'Value for a template prompt (repeatable)', parseVariable, {})
+  .action(async (directory: string, options) => {
+    try {
+      const issues = await logger.withSpinner('Simulating agp init', async () => {
+        return await validateTemplate({ directory, variables: options.var });
+      });
+
+      issues.forEach(printIssue);
+
+      const errors = issues.filter((issue) => issue.severity === 'error');
+      if (errors.length > 0) {
+        logger.error(`${errors.length} problem(s) found`);
+        process.exit(1);
+      }
+      logger.success('Template is valid');
+    } catch (error) {
+      logger.error('Failed to validate template:');
+      logger.error(error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
+
+function printIssue(issue: TemplateIssue): void {
+  const line = issue.file ? `${issue.file}: ${issue.message}` : issue.message;
+
+  if (issue.severity === 'error') {
+    logger.error(line);
+  } else {
+    logger.warning(line);
+  }
+}
+
+export const templateCommand = new Command('template')
+  .description('Create, validate and update AGP templates')
+  .addCommand(initCommand)
+  .addCommand(validateCommand)
+  .addCommand(updateCommand);
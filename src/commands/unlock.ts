@@ -0,0 +1,27 @@
+import { Command } from 'commander';
+import { unlockFiles } from '../utils/agp-locks';
+import { logger } from '../utils/logger';
+
+export const unlockCommand = new Command('unlock')
+  .description('Release file locks you hold')
+  .argument('[files...]', 'Files or directories to unlock')
+  .option('-a, --all', 'Release every lock you hold')
+  .action(async (files: string[], options) => {
+    try {
+      const released = await unlockFiles({
+        files,
+        all: options.all || false,
+      });
+
+      if (released.length === 0) {
+        logger.warning('You do not hold locks on the given files');
+        return;
+      }
+
+      released.forEach((lock) => logger.success(`Unlocked ${lock.path}`));
+    } catch (error) {
+      logger.error('Failed to unlock files:');
+      logger.error(error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
@@ -1,28 +1,274 @@
 export interface AgpInitOptions {
   force: boolean;
   templateUrl?: string;
+  templateRef?: string;
+  templateSha256?: string;
+  /**
+   * Answers to the template's prompts, from --var name=value
+   */
+  variables?: Record<string, string>;
+  maxFiles?: number;
 }
 
 export interface AgpPushOptions {
   message?: string;
 }
 
+export interface AgpSyncOptions {
+  strategy: 'rebase' | 'merge';
+}
+
+export interface AgpStatusOptions {
+  fetch: boolean;
+}
+
+export interface AgpStartOptions {
+  files: string[];
+}
+
+export interface AgpLockOptions {
+  files: string[];
+  reason?: string;
+  force: boolean;
+}
+
+export interface AgpUnlockOptions {
+  files: string[];
+  all: boolean;
+}
+
+export interface AgpDoctorOptions {
+  fix: boolean;
+  templateUrl?: string;
+  templateRef?: string;
+  templateSha256?: string;
+}
+
+export interface AgpTemplateUpdateOptions {
+  templateUrl?: string;
+  templateRef?: string;
+  templateSha256?: string;
+  dryRun: boolean;
+}
+
+export interface AgpTemplateInitOptions {
+  directory: string;
+  name?: string;
+  force: boolean;
+}
+
+export interface AgpTemplateValidateOptions {
+  directory: string;
+  variables?: Record<string, string>;
+}
+
+export interface AgpCheckOptions {
+  update: boolean;
+}
+
+export interface AgpAnalyzeOptions {
+  force: boolean;
+  maxFiles?: number;
+}
+
 export interface AgpConnectOptions {
   tool: string;
   configPath?: string;
+  /**
+   * Defaults to the mode the tool was last connected with, else inline
+   */
+  mode?: ConnectMode;
+}
+
+export interface AgpContextOptions {
+  /**
+   * Source files, directories or globs, relative to the project root
+   */
+  paths: string[];
+  format: 'markdown' | 'xml';
+  /**
+   * Maximum estimated tokens of the whole pack
+   */
+  budget: number;
+  instructions: boolean;
+  session: boolean;
+}
+
+export type SearchSection = 'architecture' | 'patterns' | 'project' | 'sessions';
+
+export interface AgpSearchOptions {
+  query: string;
+  /**
+   * Sections to search; all of them when empty
+   */
+  sections: SearchSection[];
+  limit: number;
+  /**
+   * Discard the search index and build it again from scratch
+   */
+  rebuild: boolean;
+}
+
+export interface AgpDisconnectOptions {
+  tool: string;
+  configPath?: string;
 }
 
 export interface ProjectInfo {
-  type: 'react' | 'nextjs' | 'vue' | 'express' | 'nestjs' | 'unknown';
+  type:
+    | 'react'
+    | 'nextjs'
+    | 'vue'
+    | 'express'
+    | 'nestjs'
+    | 'python'
+    | 'django'
+    | 'fastapi'
+    | 'flask'
+    | 'go'
+    | 'rust'
+    | 'jvm'
+    | 'spring'
+    | 'ruby'
+    | 'rails'
+    | 'php'
+    | 'laravel'
+    | 'dart'
+    | 'flutter'
+    | 'unknown';
   hasPackageJson: boolean;
   hasGitRepo: boolean;
+  language?: string | undefined;
   framework?: string | undefined;
   buildTool?: string | undefined;
+  toolchain?: ToolchainInfo | undefined;
+  workspace?: WorkspaceInfo | undefined;
+}
+
+export interface ToolchainInfo {
+  /**
+   * Package manager with version when pinned, e.g. "pnpm 10.11.0"
+   */
+  packageManager?: string | undefined;
+  testFrameworks: string[];
+  linters: string[];
+  formatters: string[];
+  typescript?:
+    | {
+        version?: string | undefined;
+        strict: boolean;
+        /**
+         * Strictness flags enabled beyond `strict`
+         */
+        flags: string[];
+      }
+    | undefined;
+  ciProviders: string[];
+  /**
+   * Runtime and version constraint, e.g. "Node.js >=18" or "Go 1.22"
+   */
+  runtime?: string | undefined;
+  /**
+   * Commands by purpose (build, test, lint, ...), e.g. { test: 'pnpm test' }
+   */
+  commands: Record<string, string>;
+}
+
+export interface WorkspaceInfo {
+  /**
+   * Tools that declare the workspace, e.g. pnpm, npm, Yarn, Nx, Turborepo, Lerna
+   */
+  tools: string[];
+  packages: WorkspacePackage[];
+}
+
+export interface WorkspacePackage {
+  name: string;
+  /**
+   * Package directory relative to the workspace root, forward slashes
+   */
+  path: string;
+  projectInfo: ProjectInfo;
+  /**
+   * Names of other workspace packages this package depends on
+   */
+  workspaceDependencies: string[];
 }
 
 export interface AgpConfig {
-  version: string;
-  templateUrl: string;
-  lastSync: string;
-  projectType: ProjectInfo['type'];
+  session: {
+    user: string;
+    current: string;
+  };
+  submodule: {
+    repository: string;
+    lastUpdated: string;
+  };
+  template?: TemplatePin;
+  /**
+   * AI tools set up with `agp connect`, by tool name, so `agp connect --refresh` can
+   * regenerate them
+   */
+  connections?: Record<string, ToolConnection>;
+}
+
+/**
+ * - inline: the tool's files carry a copy of .agp/instructions.md
+ * - reference: the tool's files point the assistant at .agp/instructions.md
+ */
+export type ConnectMode = 'inline' | 'reference';
+
+export interface ToolConnection {
+  mode: ConnectMode;
+  /**
+   * --config directory given when connecting, relative to the project root
+   */
+  configPath?: string;
+  connectedAt: string;
+}
+
+/**
+ * The template version a project's template-owned files were last taken from
+ */
+export interface TemplatePin {
+  url: string;
+  ref?: string;
+  /**
+   * Commit the ref resolved to, when the source is a Git repository
+   */
+  commit?: string;
+  /**
+   * Content hash of the template snapshot in the template cache, used as the merge base
+   */
+  snapshot: string;
+  /**
+   * Values substituted for the template's {{placeholders}} at init, reused on update
+   */
+  variables?: Record<string, string>;
+  updatedAt: string;
+}
+
+/**
+ * Contents of agp-template.json, which describes a template's layout and the questions
+ * asked at init
+ */
+export interface TemplateManifest {
+  name?: string;
+  description?: string;
+  /**
+   * Files and directories, relative to .agp, that a valid setup must contain
+   */
+  requiredFiles: string[];
+  requiredDirs: string[];
+  prompts: TemplatePrompt[];
+}
+
+export interface TemplatePrompt {
+  /**
+   * Variable name used in {{placeholders}}
+   */
+  name: string;
+  message: string;
+  default?: string;
+  choices?: string[];
 }
@@ -0,0 +1,19 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { AgpAnalyzeOptions } from '../types';
+import { AnalyzeSummary, analyzeProject } from './project-analyzer';
+import { detectProjectType } from './project-detector';
+
+export async function analyzeAgpProject(options: AgpAnalyzeOptions): Promise<AnalyzeSummary> {
+  const cwd = process.cwd();
+  const agpPath = path.join(cwd, '.agp');
+
+  // Check if AGP is initialized
+  if (!(await fs.pathExists(agpPath))) {
+    throw new Error('AGP not initialized. Run "agp init" first.');
+  }
+
+  const projectInfo = await detectProjectType(cwd);
+
+  return await analyzeProject(cwd, projectInfo, { force: options.force, maxFiles: options.maxFiles });
+}
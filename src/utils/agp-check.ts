@@ -0,0 +1,77 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { AgpCheckOptions } from '../types';
+import {
+  createKnowledgeMetadata,
+  findKnowledgeFiles,
+  getHeadCommit,
+  getSourcePathForKnowledge,
+  hashSourceFile,
+  KnowledgeMetadata,
+  readKnowledgeMetadata,
+  withKnowledgeMetadata,
+} from './knowledge-files';
+
+export interface KnowledgeFreshness {
+  knowledgeFile: string;
+  source: string;
+  state: 'fresh' | 'stale' | 'missing-source' | 'untracked';
+  analyzedCommit?: string;
+  updated?: boolean;
+}
+
+export async function checkKnowledgeFreshness(options: AgpCheckOptions): Promise<KnowledgeFreshness[]> {
+  const cwd = process.cwd();
+  const agpPath = path.join(cwd, '.agp');
+
+  // Check if AGP is initialized
+  if (!(await fs.pathExists(agpPath))) {
+    throw new Error('AGP not initialized. Run "agp init" first.');
+  }
+
+  const results: KnowledgeFreshness[] = [];
+  const headCommit = options.update ? await getHeadCommit(cwd) : undefined;
+
+  for (const knowledgePath of await findKnowledgeFiles(agpPath)) {
+    const content = await fs.readFile(knowledgePath, 'utf8');
+    const metadata = readKnowledgeMetadata(content);
+    const source = metadata?.source || getSourcePathForKnowledge(agpPath, knowledgePath);
+    const sourcePath = path.join(cwd, source);
+
+    const result: KnowledgeFreshness = {
+      knowledgeFile: path.relative(cwd, knowledgePath).split(path.sep).join('/'),
+      source,
+      state: await getKnowledgeState(sourcePath, metadata),
+    };
+    if (metadata?.analyzedCommit) {
+      result.analyzedCommit = metadata.analyzedCommit;
+    }
+
+    // Re-stamp knowledge the user has reviewed against the current source
+    if (options.update && (result.state === 'stale' || result.state === 'untracked')) {
+      const updatedMetadata = await createKnowledgeMetadata(cwd, source, headCommit);
+      await fs.writeFile(knowledgePath, withKnowledgeMetadata(content, updatedMetadata));
+      result.updated = true;
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
+
+/**
+ * Compare knowledge metadata with the source file it describes
+ */
+export async function getKnowledgeState(
+  sourcePath: string,
+  metadata: KnowledgeMetadata | null,
+): Promise<KnowledgeFreshness['state']> {
+  if (!(await fs.pathExists(sourcePath))) {
+    return 'missing-source';
+  }
+  if (!metadata) {
+    return 'untracked';
+  }
+  return (await hashSourceFile(sourcePath)) !== metadata.sourceHash ? 'stale' : 'fresh';
+}
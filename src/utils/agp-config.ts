@@ -0,0 +1,26 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { AgpConfig } from '../types';
+
+export function getConfigPath(agpPath: string): string {
+  return path.join(agpPath, '.config.json');
+}
+
+export async function readAgpConfig(agpPath: string): Promise<AgpConfig> {
+  const configPath = getConfigPath(agpPath);
+
+  if (!(await fs.pathExists(configPath))) {
+    throw new Error('AGP config not found. Run "agp init" to reinitialize.');
+  }
+
+  try {
+    const configContent = await fs.readFile(configPath, 'utf8');
+    return JSON.parse(configContent);
+  } catch (error) {
+    throw new Error('Failed to read AGP config. Please run "agp init" to reinitialize.');
+  }
+}
+
+export async function writeAgpConfig(agpPath: string, config: AgpConfig): Promise<void> {
+  await fs.writeFile(getConfigPath(agpPath), JSON.stringify(config, null, 2));
+}
@@ -0,0 +1,302 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs-extra';
+import ignore from 'ignore';
+import * as path from 'path';
+import { AgpContextOptions } from '../types';
+import { readAgpConfig } from './agp-config';
+import { findKnowledgeFiles, getSourcePathForKnowledge, parseFrontmatter } from './knowledge-files';
+
+export interface ContextDocument {
+  /**
+   * Project-relative path, e.g. .agp/project/src/cli.ts.md
+   */
+  path: string;
+  kind: 'instructions' | 'session' | 'knowledge' | 'linked' | 'overview';
+  tokens: number;
+  truncated: boolean;
+}
+
+export interface ContextPack {
+  content: string;
+  /**
+   * Estimated tokens of the whole pack
+   */
+  tokens: number;
+  documents: ContextDocument[];
+  /**
+   * Documents left out because the budget ran out, in priority order
+   */
+  omitted: string[];
+  /**
+   * Requested paths no knowledge file matched
+   */
+  unmatched: string[];
+}
+
+interface Candidate {
+  path: string;
+  kind: ContextDocument['kind'];
+  content: string;
+}
+
+/**
+ * Tokens reserved for the pack header and footer, besides the requested paths it lists
+ */
+const PACK_OVERHEAD_TOKENS = 150;
+
+/**
+ * A document is cut short only when at least this much of it fits; otherwise it is omitted
+ */
+const MIN_TRUNCATED_TOKENS = 200;
+
+const OVERVIEW_FILES = [
+  'architecture/project-overview.md',
+  'architecture/overview.md',
+  'architecture/workspace-overview.md',
+  'patterns/overview.md',
+];
+
+/**
+ * Mentions of pattern and architecture documents, as `.agp/patterns/x.md` or as relative
+ * links such as `../../patterns/x.md`
+ */
+const LINKED_DOC_PATTERN = /(?:^|[\s(`/'"])((?:patterns|architecture)\/[\w./-]+\.md)\b/g;
+
+/**
+ * Rough token estimate shared by the common tokenizers: about four characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Collect the AGP documents relevant to the given source paths, in priority order, and
+ * render as many as fit in the token budget into a single document
+ */
+export async function buildContextPack(options: AgpContextOptions): Promise<ContextPack> {
+  const cwd = process.cwd();
+  const agpPath = path.join(cwd, '.agp');
+
+  // Check if .agp directory exists
+  if (!(await fs.pathExists(agpPath))) {
+    throw new Error('AGP directory not found. Run "agp init" first.');
+  }
+
+  const { candidates, unmatched } = await collectCandidates(cwd, agpPath, options);
+  const renderDocument = options.format === 'xml' ? renderXmlDocument : renderMarkdownDocument;
+
+  const documents: ContextDocument[] = [];
+  const blocks: string[] = [];
+  const omitted: string[] = [];
+  let remaining = options.budget - PACK_OVERHEAD_TOKENS - estimateTokens(options.paths.join(', '));
+
+  for (const candidate of candidates) {
+    const block = renderDocument(candidate, false);
+    const tokens = estimateTokens(block);
+
+    if (tokens <= remaining) {
+      blocks.push(block);
+      documents.push({ path: candidate.path, kind: candidate.kind, tokens, truncated: false });
+      remaining -= tokens;
+    } else if (remaining >= MIN_TRUNCATED_TOKENS) {
+      const wrapperTokens = tokens - estimateTokens(candidate.content);
+      const content = truncateContent(candidate.content, (remaining - wrapperTokens) * 4);
+      const truncatedBlock = renderDocument({ ...candidate, content }, true);
+
+      blocks.push(truncatedBlock);
+      documents.push({
+        path: candidate.path,
+        kind: candidate.kind,
+        tokens: estimateTokens(truncatedBlock),
+        truncated: true,
+      });
+      remaining = 0;
+    } else {
+      omitted.push(candidate.path);
+    }
+  }
+
+  const render = options.format === 'xml' ? renderXmlPack : renderMarkdownPack;
+  const bodyTokens = documents.reduce((total, document) => total + document.tokens, 0);
+  let content = render(cwd, options.paths, blocks, omitted, bodyTokens);
+  // The header states the total, so render once more with the total of the first pass
+  content = render(cwd, options.paths, blocks, omitted, estimateTokens(content));
+
+  return { content, tokens: estimateTokens(content), documents, omitted, unmatched };
+}
+
+async function collectCandidates(
+  cwd: string,
+  agpPath: string,
+  options: AgpContextOptions,
+): Promise<{ candidates: Candidate[]; unmatched: string[] }> {
+  const candidates: Candidate[] = [];
+  const add = async (relativePath: string, kind: Candidate['kind']) => {
+    const projectPath = path.posix.join('.agp', relativePath);
+    if (candidates.some((candidate) => candidate.path === projectPath)) return;
+
+    const fullPath = path.join(agpPath, relativePath);
+    if (await fs.pathExists(fullPath)) {
+      candidates.push({ path: projectPath, kind, content: (await fs.readFile(fullPath, 'utf8')).trim() });
+    }
+  };
+
+  if (options.instructions) {
+    await add('instructions.md', 'instructions');
+  }
+
+  if (options.session) {
+    const config = await readAgpConfig(agpPath).catch(() => null);
+    const sessionFile = config?.session.current?.trim();
+    if (sessionFile) {
+      await add(path.relative(agpPath, path.join(cwd, sessionFile)).split(path.sep).join('/'), 'session');
+    }
+  }
+
+  // Knowledge in the order the paths were given, so the first path is cut last
+  const sourcePaths = (await findKnowledgeFiles(agpPath)).map((file) => getSourcePathForKnowledge(agpPath, file));
+  const unmatched: string[] = [];
+  const knowledge: Candidate[] = [];
+  for (const requested of options.paths) {
+    const matcher = ignore().add(toProjectPattern(cwd, requested));
+    const matches = sourcePaths.filter((sourcePath) => matcher.ignores(sourcePath));
+    if (matches.length === 0) {
+      unmatched.push(requested);
+    }
+
+    for (const sourcePath of matches) {
+      const before = candidates.length;
+      await add(`project/${sourcePath}.md`, 'knowledge');
+      knowledge.push(...candidates.slice(before));
+    }
+  }
+
+  // Strip knowledge metadata; it means nothing to the assistant reading the pack
+  for (const candidate of knowledge) {
+    candidate.content = parseFrontmatter(candidate.content).body.trim();
+  }
+
+  for (const candidate of knowledge) {
+    for (const match of candidate.content.matchAll(LINKED_DOC_PATTERN)) {
+      await add(path.posix.normalize(match[1]!), 'linked');
+    }
+  }
+
+  for (const overview of OVERVIEW_FILES) {
+    await add(overview, 'overview');
+  }
+
+  return { candidates, unmatched };
+}
+
+/**
+ * Turn a path or glob given on the command line into a pattern relative to the project
+ * root, in .gitignore syntax so a directory matches everything below it
+ */
+function toProjectPattern(cwd: string, requested: string): string {
+  const normalized = requested.split(path.sep).join('/');
+  if (path.isAbsolute(requested)) {
+    return `/${path.relative(cwd, requested).split(path.sep).join('/')}`;
+  }
+  return normalized.replace(/^\.\//, '/');
+}
+
+/**
+ * Cut content to about `maxChars`, at a line break when there is one nearby
+ */
+function truncateContent(content: string, maxChars: number): string {
+  if (content.length <= maxChars) {
+    return content;
+  }
+
+  const cut = content.slice(0, Math.max(0, maxChars));
+  const lineBreak = cut.lastIndexOf('\n');
+  return lineBreak > maxChars / 2 ? cut.slice(0, lineBreak) : cut;
+}
+
+function renderMarkdownDocument(candidate: Candidate, truncated: boolean): string {
+  // A fence longer than any backtick run inside keeps nested code blocks intact
+  const longestRun = Math.max(2, ...[...candidate.content.matchAll(/`+/g)].map((match) => match[0].length));
+  const fence = '`'.repeat(longestRun + 1);
+  const note = truncated ? '\n\n*Truncated to fit the token budget.*' : '';
+
+  return `## ${candidate.path}\n\n${fence}markdown\n${candidate.content}\n${fence}${note}\n`;
+}
+
+function renderXmlDocument(candidate: Candidate, truncated: boolean): string {
+  const attributes = `path="${escapeXml(candidate.path)}" kind="${candidate.kind}"${truncated ? ' truncated="true"' : ''}`;
+  return `<document ${attributes}>\n${escapeXml(candidate.content)}\n</document>\n`;
+}
+
+function renderMarkdownPack(cwd: string, paths: string[], blocks: string[], omitted: string[], tokens: number): string {
+  const lines = [
+    `# AGP context: ${path.basename(cwd)}`,
+    '',
+    `Project knowledge for ${paths.map((requested) => `\`${requested}\``).join(', ')}, collected by \`agp context\` (~${tokens} tokens).`,
+    'Follow the AGP instructions below and treat the knowledge documents as the current understanding of the code.',
+    '',
+    ...blocks,
+  ];
+  if (omitted.length > 0) {
+    lines.push(
+      '## Omitted',
+      '',
+      'Left out to stay within the token budget:',
+      '',
+      ...omitted.map((file) => `- ${file}`),
+      '',
+    );
+  }
+  return lines.join('\n');
+}
+
+function renderXmlPack(cwd: string, paths: string[], blocks: string[], omitted: string[], tokens: number): string {
+  const lines = [
+    `<agp_context project="${escapeXml(path.basename(cwd))}" paths="${escapeXml(paths.join(' '))}" estimated_tokens="${tokens}">`,
+    ...blocks,
+  ];
+  if (omitted.length > 0) {
+    lines.push(
+      '<omitted reason="token budget">',
+      ...omitted.map((file) => `<path>${escapeXml(file)}</path>`),
+      '</omitted>',
+    );
+  }
+  lines.push('</agp_context>', '');
+  return lines.join('\n');
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Put text on the system clipboard with the platform's clipboard command
+ */
+export async function copyToClipboard(text: string): Promise<void> {
+  const commands: Array<[string, string[]]> =
+    process.platform === 'darwin'
+      ? [['pbcopy', []]]
+      : process.platform === 'win32'
+        ? [['clip', []]]
+        : [
+            ['wl-copy', []],
+            ['xclip', ['-selection', 'clipboard']],
+            ['xsel', ['--clipboard', '--input']],
+          ];
+
+  for (const [command, args] of commands) {
+    const copied = await new Promise<boolean>((resolve) => {
+      const child = spawn(command, args, { stdio: ['pipe', 'ignore', 'ignore'] });
+      child.on('error', () => resolve(false));
+      child.on('close', (code) => resolve(code === 0));
+      child.stdin.on('error', () => resolve(false));
+      child.stdin.end(text);
+    });
+    if (copied) return;
+  }
+
+  throw new Error(
+    `No clipboard command found (tried ${commands.map(([command]) => command).join(', ')}). Use --output to write a file instead.`,
+  );
+}
@@ -0,0 +1,442 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { AgpConfig, AgpDoctorOptions } from '../types';
+import { getConfigPath, readAgpConfig, writeAgpConfig } from './agp-config';
+import { AGP_GITIGNORE_ENTRIES, DEFAULT_TEMPLATE_URL, getRequiredEntries } from './agp-init';
+import { git, tryGit } from './git';
+import { fetchTemplate } from './template-cache';
+import { formatTemplateSource, parseTemplateSource } from './template-manager';
+import { isTemplateTextFile, renderPlaceholders } from './template-manifest';
+
+export interface DoctorCheckResult {
+  id: string;
+  title: string;
+  status: 'ok' | 'warning' | 'error' | 'skipped';
+  message: string;
+  fixable: boolean;
+  fixed?: boolean;
+  fixMessage?: string;
+}
+
+interface DoctorContext {
+  cwd: string;
+  agpPath: string;
+  templateUrl: string;
+  templateSha256?: string | undefined;
+}
+
+interface CheckOutcome {
+  status: DoctorCheckResult['status'];
+  message: string;
+  fix?: () => Promise<string>;
+}
+
+interface DoctorCheck {
+  id: string;
+  title: string;
+  /**
+   * Checks that must pass before this one can be evaluated
+   */
+  requires?: string[];
+  run(context: DoctorContext): Promise<CheckOutcome>;
+}
+
+const ok = (message: string): CheckOutcome => ({ status: 'ok', message });
+
+const checks: DoctorCheck[] = [
+  {
+    id: 'git-repository',
+    title: 'Parent Git repository',
+    async run({ cwd }) {
+      if (!(await fs.pathExists(path.join(cwd, '.git')))) {
+        return { status: 'error', message: 'AGP requires a Git repository. Please run "git init" first.' };
+      }
+      return ok('Project is a Git repository');
+    },
+  },
+  {
+    id: 'agp-directory',
+    title: '.agp directory',
+    requires: ['git-repository'],
+    async run({ cwd, agpPath }) {
+      const exists = await fs.pathExists(agpPath);
+      const contents = exists ? (await fs.readdir(agpPath)).filter((file) => !file.startsWith('.')) : [];
+      if (contents.length > 0) {
+        return ok('.agp directory is present');
+      }
+
+      const registeredUrl = await getGitmodulesUrl(cwd);
+      if (!registeredUrl) {
+        return { status: 'error', message: '.agp is missing and not registered in .gitmodules. Run "agp init".' };
+      }
+
+      return {
+        status: 'error',
+        message: exists ? '.agp is empty (submodule not checked out)' : '.agp is missing',
+        fix: async () => {
+          await git(['submodule', 'update', '--init', '--', '.agp'], cwd);
+          return 'Checked out the .agp submodule';
+        },
+      };
+    },
+  },
+  {
+    id: 'agp-repository',
+    title: '.agp Git repository',
+    requires: ['agp-directory'],
+    async run({ agpPath }) {
+      if (!(await fs.pathExists(path.join(agpPath, '.git')))) {
+        return {
+          status: 'error',
+          message: '.agp is not a Git repository. Back up your knowledge and run "agp init --force".',
+        };
+      }
+      return ok('.agp is a Git repository');
+    },
+  },
+  {
+    id: 'agp-remote',
+    title: '.agp remote',
+    requires: ['agp-repository'],
+    async run({ cwd, agpPath }) {
+      const originUrl = await tryGit(['remote', 'get-url', 'origin'], agpPath);
+      if (originUrl) {
+        return ok(`origin is ${originUrl}`);
+      }
+
+      const knownUrl = (await getGitmodulesUrl(cwd)) || (await readConfigRepository(agpPath));
+      if (!knownUrl) {
+        return { status: 'error', message: '.agp has no "origin" remote and no repository URL is recorded anywhere' };
+      }
+
+      return {
+        status: 'error',
+        message: '.agp has no "origin" remote',
+        fix: async () => {
+          await git(['remote', 'add', 'origin', knownUrl], agpPath);
+          return `Added origin ${knownUrl}`;
+        },
+      };
+    },
+  },
+  {
+    id: 'submodule-registration',
+    title: 'Submodule registration',
+    requires: ['agp-remote'],
+    async run({ cwd, agpPath }) {
+      const originUrl = (await tryGit(['remote', 'get-url', 'origin'], agpPath)) || '';
+      const indexEntries = (await tryGit(['ls-files', '--stage', '--', '.agp'], cwd)) || '';
+      const isGitlink = indexEntries.startsWith('160000 ');
+      const isPlainDirectory = indexEntries !== '' && !isGitlink;
+      const gitmodulesUrl = await getGitmodulesUrl(cwd);
+
+      if (isGitlink && gitmodulesUrl) {
+        return ok('.agp is registered as a submodule');
+      }
+
+      if (isPlainDirectory) {
+        return {
+          status: 'error',
+          message: '.agp is tracked as a plain directory in the parent repository',
+          fix: async () => {
+            await git(['rm', '-r', '-q', '--cached', '--', '.agp'], cwd);
+            await git(['submodule', 'add', originUrl, '.agp'], cwd);
+            return 'Replaced the tracked directory with a submodule entry';
+          },
+        };
+      }
+
+      if (isGitlink) {
+        return {
+          status: 'error',
+          message: '.agp is a gitlink but has no entry in .gitmodules',
+          fix: async () => {
+            await git(['config', '-f', '.gitmodules', 'submodule..agp.path', '.agp'], cwd);
+            await git(['config', '-f', '.gitmodules', 'submodule..agp.url', originUrl], cwd);
+            await git(['add', '.gitmodules'], cwd);
+            return 'Added the .agp entry to .gitmodules';
+          },
+        };
+      }
+
+      return {
+        status: 'error',
+        message: '.agp is not registered as a submodule',
+        fix: async () => {
+          await git(['submodule', 'add', originUrl, '.agp'], cwd);
+          return 'Registered .agp as a submodule';
+        },
+      };
+    },
+  },
+  {
+    id: 'submodule-url',
+    title: 'Submodule URL',
+    requires: ['submodule-registration'],
+    async run({ cwd, agpPath }) {
+      const originUrl = (await tryGit(['remote', 'get-url', 'origin'], agpPath)) || '';
+      const gitmodulesUrl = await getGitmodulesUrl(cwd);
+
+      if (gitmodulesUrl === originUrl) {
+        return ok('.gitmodules matches the .agp remote');
+      }
+
+      // Relative URLs resolve against the parent's remote and cannot be compared directly
+      if (gitmodulesUrl && /^\.\.?\//.test(gitmodulesUrl)) {
+        return ok(`.gitmodules uses the relative URL ${gitmodulesUrl}`);
+      }
+
+      return {
+        status: 'warning',
+        message: `.gitmodules points at ${gitmodulesUrl}, but .agp pushes to ${originUrl}`,
+        fix: async () => {
+          await git(['config', '-f', '.gitmodules', 'submodule..agp.url', originUrl], cwd);
+          await git(['submodule', 'sync', '--', '.agp'], cwd);
+          await git(['add', '.gitmodules'], cwd);
+          return `Pointed .gitmodules at ${originUrl}`;
+        },
+      };
+    },
+  },
+  {
+    id: 'config',
+    title: 'Local config (.config.json)',
+    requires: ['agp-directory'],
+    async run({ cwd, agpPath }) {
+      const configPath = getConfigPath(agpPath);
+      let existing: Partial<AgpConfig> | null = null;
+      let problem = '.config.json is missing';
+
+      if (await fs.pathExists(configPath)) {
+        try {
+          existing = await fs.readJson(configPath);
+          if (existing?.session && existing?.submodule) {
+            return ok('.config.json is valid');
+          }
+          problem = '.config.json is incomplete';
+        } catch {
+          problem = '.config.json is not valid JSON';
+        }
+      }
+
+      return {
+        status: 'error',
+        message: problem,
+        fix: async () => {
+          const repository =
+            (await tryGit(['remote', 'get-url', 'origin'], agpPath)) || (await getGitmodulesUrl(cwd)) || '';
+          const config: AgpConfig = {
+            session: existing?.session || { user: '', current: '' },
+            submodule: { repository, lastUpdated: new Date().toISOString() },
+          };
+          if (existing?.template) {
+            config.template = existing.template;
+          }
+          await writeAgpConfig(agpPath, config);
+          return 'Recreated .config.json (run "agp start" to restore your session)';
+        },
+      };
+    },
+  },
+  {
+    id: 'gitignore',
+    title: '.agp/.gitignore',
+    requires: ['agp-directory'],
+    async run({ agpPath }) {
+      const gitignorePath = path.join(agpPath, '.gitignore');
+      const content = (await fs.pathExists(gitignorePath)) ? await fs.readFile(gitignorePath, 'utf8') : '';
+      const lines = content.split('\n').map((line) => line.trim());
+      const missing = AGP_GITIGNORE_ENTRIES.filter((entry) => !lines.includes(entry));
+
+      if (missing.length === 0) {
+        return ok('.gitignore keeps local files out of the knowledge repository');
+      }
+
+      return {
+        status: 'warning',
+        message: `.gitignore is missing: ${missing.join(', ')}`,
+        fix: async () => {
+          const prefix = content && !content.endsWith('\n') ? '\n' : '';
+          await fs.appendFile(gitignorePath, prefix + missing.map((entry) => `${entry}\n`).join(''));
+          return `Added ${missing.join(', ')} to .gitignore`;
+        },
+      };
+    },
+  },
+  {
+    id: 'required-dirs',
+    title: 'Required directories',
+    requires: ['agp-directory'],
+    async run({ agpPath }) {
+      const missing = await findMissing(agpPath, (await getRequiredEntries(agpPath)).dirs);
+      if (missing.length === 0) {
+        return ok('All required directories are present');
+      }
+
+      return {
+        status: 'error',
+        message: `Missing directories: ${missing.join(', ')}`,
+        fix: async () => {
+          for (const dir of missing) {
+            await fs.ensureDir(path.join(agpPath, dir));
+          }
+          return `Created ${missing.join(', ')}`;
+        },
+      };
+    },
+  },
+  {
+    id: 'required-files',
+    title: 'Template files',
+    requires: ['agp-directory'],
+    async run({ agpPath, templateUrl, templateSha256 }) {
+      // .config.json and .gitignore have their own checks
+      const { files } = await getRequiredEntries(agpPath);
+      const templateFiles = files.filter((file) => !['.config.json', '.gitignore'].includes(file));
+      const missing = await findMissing(agpPath, templateFiles);
+      if (missing.length === 0) {
+        return ok('All required files are present');
+      }
+
+      return {
+        status: 'error',
+        message: `Missing files: ${missing.join(', ')}`,
+        fix: async () => {
+          const restored = await restoreFromTemplate(agpPath, templateUrl, templateSha256, missing);
+          const stillMissing = missing.filter((file) => !restored.includes(file));
+          if (restored.length === 0) {
+            throw new Error(`Template ${templateUrl} does not provide ${missing.join(', ')}`);
+          }
+          return (
+            `Restored ${restored.join(', ')} from the template` +
+            (stillMissing.length > 0 ? `; still missing ${stillMissing.join(', ')}` : '')
+          );
+        },
+      };
+    },
+  },
+];
+
+export async function runAgpDoctor(options: AgpDoctorOptions): Promise<DoctorCheckResult[]> {
+  const cwd = process.cwd();
+  const agpPath = path.join(cwd, '.agp');
+
+  // Restore from the template version this setup was created from, when it is recorded
+  const pin = await readAgpConfig(agpPath).then(
+    (config) => config.template,
+    () => undefined,
+  );
+  const pinnedUrl = pin ? formatTemplateSource({ url: pin.url, ref: pin.commit || pin.ref }) : undefined;
+
+  const context: DoctorContext = {
+    cwd,
+    agpPath,
+    templateUrl: formatTemplateSource(
+      parseTemplateSource(options.templateUrl || pinnedUrl || DEFAULT_TEMPLATE_URL, options.templateRef),
+    ),
+    templateSha256: options.templateSha256,
+  };
+
+  const results: DoctorCheckResult[] = [];
+
+  for (const check of checks) {
+    const blockedBy = (check.requires || []).find((id) => {
+      const dependency = results.find((result) => result.id === id);
+      return !dependency || (dependency.status !== 'ok' && !dependency.fixed);
+    });
+
+    if (blockedBy) {
+      results.push({
+        id: check.id,
+        title: check.title,
+        status: 'skipped',
+        message: `Skipped until "${blockedBy}" passes`,
+        fixable: false,
+      });
+      continue;
+    }
+
+    let outcome: CheckOutcome;
+    try {
+      outcome = await check.run(context);
+    } catch (error) {
+      outcome = { status: 'error', message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+
+    const result: DoctorCheckResult = {
+      id: check.id,
+      title: check.title,
+      status: outcome.status,
+      message: outcome.message,
+      fixable: !!outcome.fix,
+    };
+
+    if (options.fix && outcome.fix) {
+      try {
+        result.fixMessage = await outcome.fix();
+        result.fixed = true;
+      } catch (error) {
+        result.fixMessage = `Fix failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        result.fixed = false;
+      }
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
+
+async function getGitmodulesUrl(cwd: string): Promise<string | null> {
+  return await tryGit(['config', '-f', '.gitmodules', '--get', 'submodule..agp.url'], cwd);
+}
+
+async function readConfigRepository(agpPath: string): Promise<string | null> {
+  try {
+    const config: AgpConfig = await fs.readJson(getConfigPath(agpPath));
+    return config.submodule?.repository || null;
+  } catch {
+    return null;
+  }
+}
+
+async function findMissing(agpPath: string, entries: string[]): Promise<string[]> {
+  const missing: string[] = [];
+  for (const entry of entries) {
+    if (!(await fs.pathExists(path.join(agpPath, entry)))) {
+      missing.push(entry);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Copy the given files from a fresh template download without touching anything else
+ */
+async function restoreFromTemplate(
+  agpPath: string,
+  templateUrl: string,
+  templateSha256: string | undefined,
+  files: string[],
+): Promise<string[]> {
+  const template = await fetchTemplate(templateUrl, { sha256: templateSha256 });
+  // Fill in placeholders with the answers given at init
+  const variables = await readAgpConfig(agpPath).then(
+    (config) => config.template?.variables || {},
+    () => ({}),
+  );
+
+  const restored: string[] = [];
+  for (const file of files) {
+    const templateFilePath = path.join(template.path, file);
+    const targetPath = path.join(agpPath, file);
+    if ((await fs.pathExists(templateFilePath)) && !(await fs.pathExists(targetPath))) {
+      await fs.copy(templateFilePath, targetPath);
+      if (isTemplateTextFile(file)) {
+        await fs.writeFile(targetPath, renderPlaceholders(await fs.readFile(targetPath, 'utf8'), variables));
+      }
+      restored.push(file);
+    }
+  }
+  return restored;
+}
@@ -1,23 +1,43 @@
 import * as fs from 'fs-extra';
+import * as os from 'os';
 import * as path from 'path';
-import { AgpInitOptions } from '../types';
+import { AgpConfig, AgpInitOptions, ProjectInfo, TemplatePin } from '../types';
 import { detectProjectType } from './project-detector';
-import { downloadTemplate } from './template-manager';
+import { fetchTemplate } from './template-cache';
+import { formatTemplateSource, parseTemplateSource } from './template-manager';
+import {
+  getProjectVariables,
+  readTemplateManifest,
+  renderTemplateFiles,
+  resolveTemplateVariables,
+} from './template-manifest';
 import { analyzeProject } from './project-analyzer';
 import { logger } from './logger';
 
-interface AgpConfig {
-  session: {
-    user: string;
-    current: string;
-  };
-  submodule: {
-    repository: string;
-    lastUpdated: string;
+export const DEFAULT_TEMPLATE_URL = 'https://github.com/bang9/agp-template.git';
+
+/**
+ * Files and directories every AGP setup has, whatever the template: init and the analyzer
+ * create them. Templates declare their own in agp-template.json.
+ */
+export const AGP_REQUIRED_FILES = [
+  '.config.json',
+  '.gitignore',
+  'architecture/feature-domains.md',
+  'architecture/project-overview.md',
+];
+
+export const AGP_REQUIRED_DIRS = ['sessions', 'architecture', 'project'];
+
+export async function getRequiredEntries(agpPath: string): Promise<{ files: string[]; dirs: string[] }> {
+  const manifest = await readTemplateManifest(agpPath);
+  return {
+    files: [...new Set([...manifest.requiredFiles, ...AGP_REQUIRED_FILES])],
+    dirs: [...new Set([...manifest.requiredDirs, ...AGP_REQUIRED_DIRS])],
   };
 }
 
-const DEFAULT_TEMPLATE_URL = 'https://github.com/bang9/agp-template.git';
+export const AGP_GITIGNORE_ENTRIES = ['.config.json', '*.tmp'];
 
 export async function initializeAgpDirectory(options: AgpInitOptions): Promise<void> {
   const cwd = process.cwd();
@@ -57,49 +77,57 @@ export async function initializeAgpDirectory(options: AgpInitOptions): Promise<v
   }
 
   // Setup AGP structure  
-  const templateUrl = options.templateUrl || DEFAULT_TEMPLATE_URL;
-  let detectedProjectInfo;
-  
+  const templateUrl = formatTemplateSource(
+    parseTemplateSource(options.templateUrl || DEFAULT_TEMPLATE_URL, options.templateRef),
+  );
+  const { projectInfo, template } = await logger.withSpinner('Fetching template', async () => ({
+    projectInfo: await detectProjectType(cwd),
+    // From the cache, downloading it if needed
+    template: await fetchTemplate(templateUrl, { sha256: options.templateSha256 }),
+  }));
+
+  // Answer the template's prompts (has user interaction - outside spinner)
+  const manifest = await readTemplateManifest(template.path);
+  const variables = await resolveTemplateVariables(manifest, getProjectVariables(cwd, projectInfo), options.variables);
+  // Remember which version and answers the files came from, for agp template update
+  const templatePin: TemplatePin = { ...template.pin, variables };
+
   await logger.withSpinner('Setting up AGP structure', async () => {
-    detectedProjectInfo = await detectProjectType(cwd);
-    
     // Remove existing .agp if force is enabled
     if (await fs.pathExists(agpPath)) {
       await fs.remove(agpPath);
     }
     
-    // Download template
-    await downloadTemplate(templateUrl, agpPath);
-    
-    // Ensure project directory exists
-    const projectPath = path.join(agpPath, 'project');
-    await fs.ensureDir(projectPath);
-    
-    // Analyze project and generate documentation
-    await analyzeProject(cwd, detectedProjectInfo);
-    
-    // Create additional required directories and files
-    await setupAdditionalStructure(agpPath);
+    const unresolved = await setupAgpStructure(cwd, template.path, projectInfo, variables, options.maxFiles);
+    if (unresolved.length > 0) {
+      logger.warning(`Template placeholders left unfilled: ${unresolved.join(', ')}`);
+    }
   });
 
   // Initialize git submodule (has user interaction - outside spinner)
   const submoduleUrl = await initializeSubmodule(
     agpPath,
     existingConfig?.submodule?.repository || undefined,
-    templateUrl,
+    template.path,
+    variables,
   );
 
   // Finalize setup
   await logger.withSpinner('Finalizing setup', async () => {
     // Create or restore config file
-    await createConfigFile(agpPath, existingConfig, submoduleUrl);
+    await createConfigFile(agpPath, existingConfig, submoduleUrl, templatePin);
     
     // Validation step
     await validateAgpSetup(agpPath);
   });
 }
 
-async function initializeSubmodule(agpPath: string, existingUrl?: string, templateUrl?: string): Promise<string> {
+async function initializeSubmodule(
+  agpPath: string,
+  existingUrl: string | undefined,
+  templatePath: string,
+  variables: Record<string, string>,
+): Promise<string> {
   const { execSync } = await import('child_process');
   const inquirer = await import('inquirer');
   const cwd = process.cwd();
@@ -223,7 +251,7 @@ async function initializeSubmodule(agpPath: string, existingUrl?: string, templa
             execSync(`git submodule add ${repositoryUrl} .agp`, { cwd, stdio: 'pipe' });
 
             // Merge template content with existing
-            await mergeTemplateWithExisting(agpPath, templateUrl!);
+            await mergeTemplateWithExisting(agpPath, templatePath, variables);
 
             // Commit merged changes
             process.chdir(agpPath);
@@ -306,6 +334,34 @@ function isValidGitUrl(url: string): boolean {
   return patterns.some((pattern) => pattern.test(url));
 }
 
+/**
+ * Lay out .agp from a template: copy it, fill in placeholders, generate the project
+ * documentation and add what init itself owns. Returns the placeholders left unfilled.
+ */
+export async function setupAgpStructure(
+  projectPath: string,
+  templatePath: string,
+  projectInfo: ProjectInfo,
+  variables: Record<string, string>,
+  maxFiles?: number,
+): Promise<string[]> {
+  const agpPath = path.join(projectPath, '.agp');
+
+  await fs.copy(templatePath, agpPath);
+  const unresolved = await renderTemplateFiles(agpPath, variables);
+
+  // Ensure project directory exists
+  await fs.ensureDir(path.join(agpPath, 'project'));
+
+  // Analyze project and generate documentation
+  await analyzeProject(projectPath, projectInfo, { force: true, maxFiles });
+
+  // Create additional required directories and files
+  await setupAdditionalStructure(agpPath);
+
+  return unresolved;
+}
+
 async function setupAdditionalStructure(agpPath: string): Promise<void> {
   // Create sessions directory
   const sessionsPath = path.join(agpPath, 'sessions');
@@ -313,9 +369,7 @@ async function setupAdditionalStructure(agpPath: string): Promise<void> {
 
   // Create .gitignore
   const gitignorePath = path.join(agpPath, '.gitignore');
-  const gitignoreContent = `.config.json
-*.tmp
-`;
+  const gitignoreContent = AGP_GITIGNORE_ENTRIES.map((entry) => `${entry}\n`).join('');
   await fs.writeFile(gitignorePath, gitignoreContent);
 }
 
@@ -323,6 +377,7 @@ async function createConfigFile(
   agpPath: string,
   existingConfig: AgpConfig | null,
   submoduleUrl: string,
+  templatePin: TemplatePin,
 ): Promise<void> {
   const configPath = path.join(agpPath, '.config.json');
 
@@ -335,26 +390,18 @@ async function createConfigFile(
       repository: submoduleUrl,
       lastUpdated: new Date().toISOString(),
     },
+    template: templatePin,
   };
 
   await fs.writeFile(configPath, JSON.stringify(config, null, 2));
 }
 
 async function validateAgpSetup(agpPath: string): Promise<void> {
-  const requiredFiles = [
-    'instructions.md',
-    '.config.json',
-    '.gitignore',
-    'architecture/overview.md',
-    'patterns/overview.md',
-    'architecture/feature-domains.md',
-    'architecture/project-overview.md',
-  ];
-
-  const requiredDirs = ['sessions', 'architecture', 'patterns', 'project'];
+  // The template's manifest says what it provides
+  const required = await getRequiredEntries(agpPath);
 
   // Check required files
-  for (const file of requiredFiles) {
+  for (const file of required.files) {
     const filePath = path.join(agpPath, file);
     if (!(await fs.pathExists(filePath))) {
       throw new Error(`Required file missing: ${file}`);
@@ -362,7 +409,7 @@ async function validateAgpSetup(agpPath: string): Promise<void> {
   }
 
   // Check required directories
-  for (const dir of requiredDirs) {
+  for (const dir of required.dirs) {
     const dirPath = path.join(agpPath, dir);
     if (!(await fs.pathExists(dirPath))) {
       throw new Error(`Required directory missing: ${dir}`);
@@ -390,21 +437,27 @@ async function validateAgpSetup(agpPath: string): Promise<void> {
   }
 }
 
-async function mergeTemplateWithExisting(agpPath: string, templateUrl: string): Promise<void> {
-  // Create a temporary directory for template download
-  const tempDir = path.join(agpPath, '.temp-template');
-  await fs.ensureDir(tempDir);
+/**
+ * Add the template to a knowledge repository that already has content. Files are rendered
+ * with the same variables as setupAgpStructure, so they match the pin recorded in the config.
+ */
+async function mergeTemplateWithExisting(
+  agpPath: string,
+  templatePath: string,
+  variables: Record<string, string>,
+): Promise<void> {
+  const renderedPath = await fs.mkdtemp(path.join(os.tmpdir(), 'agp-template-'));
 
   try {
-    // Download template to temporary directory
-    await downloadTemplate(templateUrl, tempDir);
+    await fs.copy(templatePath, renderedPath);
+    await renderTemplateFiles(renderedPath, variables);
 
     // Merge template files with existing content
     // Priority: existing files > template files (don't overwrite existing)
-    const templateFiles = await fs.readdir(tempDir);
+    const templateFiles = await fs.readdir(renderedPath);
 
     for (const file of templateFiles) {
-      const templateFilePath = path.join(tempDir, file);
+      const templateFilePath = path.join(renderedPath, file);
       const targetFilePath = path.join(agpPath, file);
 
       if (!(await fs.pathExists(targetFilePath))) {
@@ -416,13 +469,8 @@ async function mergeTemplateWithExisting(agpPath: string, templateUrl: string):
       }
       // For other existing files, keep the existing version
     }
-
-    // Clean up temporary directory
-    await fs.remove(tempDir);
-  } catch (error) {
-    // Clean up on error
-    await fs.remove(tempDir);
-    throw error;
+  } finally {
+    await fs.remove(renderedPath);
   }
 }
 
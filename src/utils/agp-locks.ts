@@ -0,0 +1,220 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { AgpLockOptions, AgpUnlockOptions } from '../types';
+import { readAgpConfig } from './agp-config';
+
+export interface FileLock {
+  path: string;
+  owner: string;
+  lockedAt: string;
+  reason?: string;
+}
+
+export interface LockConflict {
+  path: string;
+  owners: string[];
+}
+
+interface LockFile {
+  owner: string;
+  locks: Omit<FileLock, 'owner'>[];
+}
+
+/**
+ * Locks live in one file per user (.agp/locks/<user>-<hash>.json) so that two people locking
+ * files at the same time never produce a textual merge conflict during `agp sync`.
+ * Overlapping claims are detected by comparing the files instead.
+ */
+export function getLocksPath(agpPath: string): string {
+  return path.join(agpPath, 'locks');
+}
+
+/**
+ * The owner is stored inside the file, so the name only has to be safe and unique: a
+ * readable prefix with separators and leading dots replaced, which always stays inside
+ * locks/, and a hash of the raw owner, since different owners can share a prefix
+ */
+function getLockFilePath(agpPath: string, owner: string): string {
+  const prefix = owner.replace(/[^\w.@-]+/g, '-').replace(/^[.-]+/, '') || 'user';
+  const hash = createHash('sha256').update(owner).digest('hex').slice(0, 8);
+  return path.join(getLocksPath(agpPath), `${prefix}-${hash}.json`);
+}
+
+export async function readLocks(agpPath: string): Promise<FileLock[]> {
+  const locksPath = getLocksPath(agpPath);
+  if (!(await fs.pathExists(locksPath))) {
+    return [];
+  }
+
+  const locks: FileLock[] = [];
+  const entries = (await fs.readdir(locksPath)).filter((entry) => entry.endsWith('.json')).sort();
+
+  for (const entry of entries) {
+    try {
+      const lockFile: LockFile = await fs.readJson(path.join(locksPath, entry));
+      const owner = lockFile.owner || path.basename(entry, '.json');
+      for (const lock of lockFile.locks || []) {
+        locks.push({ ...lock, owner });
+      }
+    } catch {
+      // Skip unreadable lock files (e.g. left with conflict markers)
+    }
+  }
+
+  return locks;
+}
+
+async function writeOwnerLocks(agpPath: string, owner: string, locks: FileLock[]): Promise<void> {
+  const lockFilePath = getLockFilePath(agpPath, owner);
+
+  if (locks.length === 0) {
+    await fs.remove(lockFilePath);
+    return;
+  }
+
+  const lockFile: LockFile = {
+    owner,
+    locks: locks.map(({ owner: _owner, ...lock }) => lock).sort((a, b) => a.path.localeCompare(b.path)),
+  };
+
+  await fs.ensureDir(path.dirname(lockFilePath));
+  await fs.writeJson(lockFilePath, lockFile, { spaces: 2 });
+}
+
+/**
+ * Convert a user-supplied path into the project-relative, forward-slash form used as lock key
+ */
+export function normalizeLockPath(projectPath: string, filePath: string): string {
+  const absolutePath = path.resolve(projectPath, filePath);
+  const relativePath = path.relative(projectPath, absolutePath).split(path.sep).join('/');
+
+  if (!relativePath || relativePath.startsWith('..')) {
+    throw new Error(`Cannot lock a path outside the project: ${filePath}`);
+  }
+
+  return relativePath.replace(/\/+$/, '');
+}
+
+/**
+ * A lock on a directory covers every file below it
+ */
+export function lockCovers(lockPath: string, filePath: string): boolean {
+  return lockPath === filePath || filePath.startsWith(`${lockPath}/`) || lockPath.startsWith(`${filePath}/`);
+}
+
+export function findLocksHeldByOthers(locks: FileLock[], user: string, filePaths?: string[]): FileLock[] {
+  return locks.filter(
+    (lock) => lock.owner !== user && (!filePaths || filePaths.some((filePath) => lockCovers(lock.path, filePath))),
+  );
+}
+
+export function findLockConflicts(locks: FileLock[]): LockConflict[] {
+  const conflicts: LockConflict[] = [];
+
+  for (const lock of locks) {
+    const others = locks.filter((other) => other.owner !== lock.owner && lockCovers(other.path, lock.path));
+    if (others.length === 0 || conflicts.some((conflict) => lockCovers(conflict.path, lock.path))) {
+      continue;
+    }
+
+    conflicts.push({
+      path: lock.path,
+      owners: [...new Set([lock.owner, ...others.map((other) => other.owner)])].sort(),
+    });
+  }
+
+  return conflicts;
+}
+
+export async function acquireLocks(
+  agpPath: string,
+  owner: string,
+  filePaths: string[],
+  options: { reason?: string | undefined; force?: boolean } = {},
+): Promise<FileLock[]> {
+  const locks = await readLocks(agpPath);
+  const heldByOthers = findLocksHeldByOthers(locks, owner, filePaths);
+
+  if (heldByOthers.length > 0 && !options.force) {
+    throw new Error(
+      [
+        'Some files are already locked by teammates:',
+        ...heldByOthers.map((lock) => `  - ${lock.path} (${lock.owner}${lock.reason ? `: ${lock.reason}` : ''})`),
+        'Coordinate with them, or use --force to lock anyway.',
+      ].join('\n'),
+    );
+  }
+
+  const ownLocks = locks.filter((lock) => lock.owner === owner && !filePaths.includes(lock.path));
+  const lockedAt = new Date().toISOString();
+  const acquired = filePaths.map((filePath) => {
+    const lock: FileLock = { path: filePath, owner, lockedAt };
+    if (options.reason) {
+      lock.reason = options.reason;
+    }
+    return lock;
+  });
+
+  await writeOwnerLocks(agpPath, owner, [...ownLocks, ...acquired]);
+  return acquired;
+}
+
+/**
+ * Release the given paths, or every lock held by the owner when no paths are given
+ */
+export async function releaseLocks(agpPath: string, owner: string, filePaths?: string[]): Promise<FileLock[]> {
+  const ownLocks = (await readLocks(agpPath)).filter((lock) => lock.owner === owner);
+  const released = filePaths ? ownLocks.filter((lock) => filePaths.includes(lock.path)) : ownLocks;
+
+  await writeOwnerLocks(
+    agpPath,
+    owner,
+    ownLocks.filter((lock) => !released.includes(lock)),
+  );
+
+  return released;
+}
+
+export async function lockFiles(options: AgpLockOptions): Promise<FileLock[]> {
+  const { cwd, agpPath, user } = await resolveLockContext();
+  const filePaths = options.files.map((file) => normalizeLockPath(cwd, file));
+
+  return await acquireLocks(agpPath, user, filePaths, { reason: options.reason, force: options.force });
+}
+
+export async function unlockFiles(options: AgpUnlockOptions): Promise<FileLock[]> {
+  const { cwd, agpPath, user } = await resolveLockContext();
+
+  if (!options.all && options.files.length === 0) {
+    throw new Error('Specify files to unlock, or use --all to release every lock you hold.');
+  }
+
+  const filePaths = options.all ? undefined : options.files.map((file) => normalizeLockPath(cwd, file));
+  return await releaseLocks(agpPath, user, filePaths);
+}
+
+export async function listLocks(): Promise<{ user: string; locks: FileLock[]; conflicts: LockConflict[] }> {
+  const { agpPath, user } = await resolveLockContext();
+  const locks = await readLocks(agpPath);
+
+  return { user, locks, conflicts: findLockConflicts(locks) };
+}
+
+async function resolveLockContext(): Promise<{ cwd: string; agpPath: string; user: string }> {
+  const cwd = process.cwd();
+  const agpPath = path.join(cwd, '.agp');
+
+  // Check if AGP is initialized
+  if (!(await fs.pathExists(agpPath))) {
+    throw new Error('AGP not initialized. Run "agp init" first.');
+  }
+
+  const config = await readAgpConfig(agpPath);
+  const user = config.session.user?.trim();
+  if (!user) {
+    throw new Error('No active session. Run "agp start" first.');
+  }
+
+  return { cwd, agpPath, user };
+}
@@ -0,0 +1,208 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createAgpMcpServer } from './agp-mcp';
+import { JsonRpcResponse, McpServer } from './mcp-server';
+
+const SESSION = `# Session: alice
+
+## In Progress
+- Retry logic for the HTTP client
+
+## Next Up
+
+## Decisions Made
+`;
+
+const RETRY_KNOWLEDGE = `# src/net/retry.ts
+
+## Purpose
+Retries failed HTTP requests with exponential backoff.
+`;
+
+describe('agp mcp server', () => {
+  let projectPath: string;
+  let originalCwd: string;
+  let server: McpServer;
+  let nextId: number;
+
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    projectPath = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'agp-mcp-')));
+
+    await fs.outputFile(path.join(projectPath, 'src/net/retry.ts'), 'export const retries = 3;\n');
+    await fs.outputFile(path.join(projectPath, 'src/net/client.ts'), "import { retries } from './retry';\n");
+    await fs.outputFile(path.join(projectPath, '.agp/project/src/net/retry.ts.md'), RETRY_KNOWLEDGE);
+    await fs.outputFile(path.join(projectPath, '.agp/sessions/alice/index.md'), SESSION);
+    await fs.outputJson(path.join(projectPath, '.agp/.config.json'), {
+      session: { user: 'alice', current: '.agp/sessions/alice/index.md' },
+      submodule: { repository: '', lastUpdated: '' },
+    });
+
+    process.chdir(projectPath);
+    server = createAgpMcpServer('0.0.0-test');
+    nextId = 1;
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await fs.remove(projectPath);
+  });
+
+  async function request(method: string, params?: Record<string, unknown>): Promise<JsonRpcResponse> {
+    const response = await server.handleMessage({ jsonrpc: '2.0', id: nextId++, method, params });
+    if (!response) {
+      throw new Error(`No response to ${method}`);
+    }
+    return response;
+  }
+
+  async function callTool(name: string, args: Record<string, unknown> = {}) {
+    const { result } = await request('tools/call', { name, arguments: args });
+    const { content, isError } = result as { content: Array<{ type: string; text: string }>; isError?: boolean };
+    return { text: content.map((part) => part.text).join('\n'), isError: isError === true };
+  }
+
+  it('negotiates the protocol version on initialize', async () => {
+    const { result } = await request('initialize', {
+      protocolVersion: '2025-03-26',
+      capabilities: {},
+      clientInfo: { name: 'test', version: '1.0.0' },
+    });
+
+    expect(result).toMatchObject({
+      protocolVersion: '2025-03-26',
+      capabilities: { tools: {} },
+      serverInfo: { name: 'agp', version: '0.0.0-test' },
+    });
+    expect((await request('initialize', { protocolVersion: '1999-01-01' })).result).toMatchObject({
+      protocolVersion: '2025-06-18',
+    });
+    expect(await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull();
+  });
+
+  it('lists every tool with an object input schema', async () => {
+    const { result } = await request('tools/list');
+    const tools = (result as { tools: Array<{ name: string; inputSchema: { type: string } }> }).tools;
+
+    expect(tools.map((tool) => tool.name)).toEqual([
+      'get_knowledge',
+      'search_knowledge',
+      'read_session',
+      'update_session',
+      'record_decision',
+      'list_locks',
+      'acquire_locks',
+      'release_locks',
+    ]);
+    expect(tools.every((tool) => tool.inputSchema.type === 'object')).toBe(true);
+  });
+
+  it('answers protocol errors with JSON-RPC error codes', async () => {
+    expect((await request('resources/list')).error?.code).toBe(-32601);
+    expect((await request('tools/call', { name: 'no_such_tool' })).error?.code).toBe(-32602);
+    expect((await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'ping', params: [1] }))?.error?.code).toBe(
+      -32602,
+    );
+    expect((await server.handleMessage({ id: 1, method: 'ping' }))?.error?.code).toBe(-32600);
+  });
+
+  it('reports invalid tool arguments as tool errors', async () => {
+    expect(await callTool('get_knowledge')).toEqual({ text: 'Missing required argument "file"', isError: true });
+    expect(await callTool('get_knowledge', { file: 42 })).toEqual({
+      text: 'Argument "file" must be a string',
+      isError: true,
+    });
+    expect(await callTool('update_session', { section: 'Notes', content: 'x', mode: 'overwrite' })).toEqual({
+      text: 'Argument "mode" must be one of replace, append',
+      isError: true,
+    });
+    expect(await callTool('acquire_locks', { files: ['src/a.ts', 3] })).toEqual({
+      text: 'Argument "files[1]" must be a string',
+      isError: true,
+    });
+  });
+
+  it('get_knowledge reads knowledge and creates stubs on request', async () => {
+    const existing = await callTool('get_knowledge', { file: 'src/net/retry.ts' });
+    expect(existing.isError).toBe(false);
+    expect(existing.text).toContain('Knowledge for src/net/retry.ts (.agp/project/src/net/retry.ts.md)');
+    expect(existing.text).toContain('State: untracked.');
+    expect(existing.text).toContain('Retries failed HTTP requests');
+
+    const missing = await callTool('get_knowledge', { file: 'src/net/client.ts' });
+    expect(missing.text).toContain('No knowledge for src/net/client.ts yet');
+    expect(await fs.pathExists('.agp/project/src/net/client.ts.md')).toBe(false);
+
+    const created = await callTool('get_knowledge', { file: 'src/net/client.ts', create: true });
+    expect(created.text).toContain('created as a stub');
+    expect(await fs.pathExists('.agp/project/src/net/client.ts.md')).toBe(true);
+
+    expect(await callTool('get_knowledge', { file: '../outside.ts' })).toEqual({
+      text: '../outside.ts is outside the project',
+      isError: true,
+    });
+  });
+
+  it('search_knowledge ranks matching knowledge files', async () => {
+    const { text, isError } = await callTool('search_knowledge', { query: 'backoff', sections: ['project'] });
+    const results = JSON.parse(text) as Array<{ path: string; source?: string }>;
+
+    expect(isError).toBe(false);
+    expect(results.map((result) => result.path)).toEqual(['.agp/project/src/net/retry.ts.md']);
+    expect(results[0]?.source).toBe('src/net/retry.ts');
+    expect(JSON.parse((await callTool('search_knowledge', { query: 'backoff', sections: ['sessions'] })).text)).toEqual(
+      [],
+    );
+  });
+
+  it('read_session returns the session or one section', async () => {
+    expect((await callTool('read_session')).text).toBe(SESSION);
+    expect((await callTool('read_session', { section: 'in progress' })).text).toBe(
+      '## In Progress\n- Retry logic for the HTTP client',
+    );
+
+    const unknown = await callTool('read_session', { section: 'Blocked' });
+    expect(unknown.isError).toBe(true);
+    expect(unknown.text).toContain('No "Blocked" section');
+  });
+
+  it('update_session appends to or replaces a section', async () => {
+    await callTool('update_session', { section: 'In Progress', content: '- Jitter for retries' });
+    await callTool('update_session', { section: 'Next Up', content: '- Timeouts', mode: 'replace' });
+    await callTool('update_session', { section: 'Blocked', content: '- Waiting on API keys' });
+
+    const session = await fs.readFile('.agp/sessions/alice/index.md', 'utf8');
+    expect(session).toContain('## In Progress\n- Retry logic for the HTTP client\n- Jitter for retries\n');
+    expect(session).toContain('## Next Up\n- Timeouts\n');
+    expect(session).toContain('## Blocked\n- Waiting on API keys\n');
+  });
+
+  it('record_decision adds a timestamped entry under Decisions Made', async () => {
+    const { text } = await callTool('record_decision', { decision: 'Use full jitter\nfor retries' });
+    expect(text).toMatch(/^Recorded: - .+: Use full jitter for retries$/);
+
+    const session = await fs.readFile('.agp/sessions/alice/index.md', 'utf8');
+    expect(session).toMatch(/## Decisions Made\n- .+: Use full jitter for retries\n/);
+  });
+
+  it('acquires, lists and releases locks', async () => {
+    const acquired = JSON.parse(
+      (await callTool('acquire_locks', { files: ['src/net/retry.ts'], reason: 'backoff rewrite' })).text,
+    );
+    expect(acquired.locked).toMatchObject([{ path: 'src/net/retry.ts', owner: 'alice', reason: 'backoff rewrite' }]);
+
+    const listed = JSON.parse((await callTool('list_locks')).text);
+    expect(listed).toMatchObject({ user: 'alice', locks: [{ path: 'src/net/retry.ts' }], conflicts: [] });
+
+    const released = JSON.parse((await callTool('release_locks')).text);
+    expect(released.released).toMatchObject([{ path: 'src/net/retry.ts' }]);
+    expect(JSON.parse((await callTool('list_locks')).text).locks).toEqual([]);
+  });
+
+  it('fails tool calls outside an AGP project', async () => {
+    await fs.remove(path.join(projectPath, '.agp'));
+    expect(await callTool('list_locks')).toEqual({ text: 'AGP not initialized. Run "agp init" first.', isError: true });
+  });
+});
@@ -0,0 +1,247 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { SearchSection } from '../types';
+import { getKnowledgeState } from './agp-check';
+import { listLocks, lockFiles, unlockFiles } from './agp-locks';
+import { SEARCH_SECTIONS, searchKnowledge } from './agp-search';
+import { getCurrentSessionPath, parseSessionSections, recordSessionDecision, updateSessionSection } from './agp-start';
+import { getKnowledgePath, parseFrontmatter, readKnowledgeMetadata } from './knowledge-files';
+import {
+  McpServer,
+  McpTool,
+  optionalBoolean,
+  optionalInteger,
+  optionalString,
+  optionalStringArray,
+  requiredString,
+} from './mcp-server';
+import { createKnowledgeStub } from './project-analyzer';
+
+const SERVER_INSTRUCTIONS = `Tools for the AGP (Agentic Programming Project) knowledge base in .agp/.
+Before changing a file, call get_knowledge for it; after changing it, update the knowledge file it names.
+Track your work with read_session and update_session, record decisions with record_decision,
+and lock files with acquire_locks before editing files teammates may also be working on.`;
+
+const STATE_NOTES: Record<string, string> = {
+  fresh: 'Up to date with the source file.',
+  stale: 'The source file changed since this knowledge was written; verify it before relying on it.',
+  untracked: 'Has no source hash yet, so it may not match the source file.',
+  'missing-source': 'The source file no longer exists.',
+};
+
+export function createAgpMcpServer(version: string): McpServer {
+  const server = new McpServer({ name: 'agp', version, instructions: SERVER_INSTRUCTIONS });
+  AGP_TOOLS.forEach((tool) => server.registerTool(tool));
+  return server;
+}
+
+async function resolveAgpPath(): Promise<{ cwd: string; agpPath: string }> {
+  const cwd = process.cwd();
+  const agpPath = path.join(cwd, '.agp');
+
+  // Check if AGP is initialized
+  if (!(await fs.pathExists(agpPath))) {
+    throw new Error('AGP not initialized. Run "agp init" first.');
+  }
+  return { cwd, agpPath };
+}
+
+const AGP_TOOLS: McpTool[] = [
+  {
+    name: 'get_knowledge',
+    description:
+      'Read the AGP knowledge file for a source file (.agp/project/<file>.md): its purpose, dependencies and gotchas, and whether it is up to date with the source.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', description: 'Source file path relative to the project root, e.g. src/cli.ts' },
+        create: {
+          type: 'boolean',
+          description: 'Write a knowledge stub when the file has none yet, as agp analyze would',
+        },
+      },
+      required: ['file'],
+    },
+    async call(args) {
+      const file = requiredString(args, 'file');
+      const { cwd, agpPath } = await resolveAgpPath();
+      const source = path.relative(cwd, path.resolve(cwd, file)).split(path.sep).join('/');
+      if (!source || source.startsWith('..')) {
+        throw new Error(`${file} is outside the project`);
+      }
+
+      const knowledgePath = getKnowledgePath(agpPath, source);
+      const knowledgeFile = path.relative(cwd, knowledgePath).split(path.sep).join('/');
+      let created = false;
+      if (!(await fs.pathExists(knowledgePath))) {
+        if (!optionalBoolean(args, 'create')) {
+          return `No knowledge for ${source} yet (${knowledgeFile}). Call get_knowledge with create: true to write a stub, then fill it in.`;
+        }
+        if (!(await createKnowledgeStub(cwd, source))) {
+          throw new Error(`${source} is not a source file agp analyzes; check that it exists and is not ignored.`);
+        }
+        created = true;
+      }
+
+      const content = await fs.readFile(knowledgePath, 'utf8');
+      const state = await getKnowledgeState(path.join(cwd, source), readKnowledgeMetadata(content));
+      return [
+        `Knowledge for ${source} (${knowledgeFile})${created ? ', created as a stub: fill it in' : ''}`,
+        `State: ${state}. ${STATE_NOTES[state]}`,
+        '',
+        parseFrontmatter(content).body.trim(),
+      ].join('\n');
+    },
+  },
+  {
+    name: 'search_knowledge',
+    description:
+      'Full-text search over AGP architecture, patterns, per-file knowledge and sessions. Returns ranked files with the best-matching line.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Words to search for' },
+        sections: {
+          type: 'array',
+          items: { type: 'string', enum: SEARCH_SECTIONS },
+          description: 'Only search these sections',
+        },
+        limit: { type: 'integer', description: 'Maximum number of results (default 10)' },
+      },
+      required: ['query'],
+    },
+    async call(args) {
+      const sections = (optionalStringArray(args, 'sections') || []).filter((section): section is SearchSection =>
+        SEARCH_SECTIONS.includes(section as SearchSection),
+      );
+      await resolveAgpPath();
+      return await searchKnowledge({
+        query: requiredString(args, 'query'),
+        sections,
+        limit: optionalInteger(args, 'limit') || 10,
+        rebuild: false,
+      });
+    },
+  },
+  {
+    name: 'read_session',
+    description:
+      "Read the current user's AGP session file, or one section of it (e.g. In Progress, Next Up, Decisions Made).",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        section: { type: 'string', description: 'Section heading to read; the whole session when omitted' },
+      },
+    },
+    async call(args) {
+      const section = optionalString(args, 'section');
+      const { agpPath } = await resolveAgpPath();
+      const content = await fs.readFile(await getCurrentSessionPath(agpPath), 'utf8');
+      if (!section) {
+        return content;
+      }
+
+      const sections = parseSessionSections(content);
+      const match = sections.find((candidate) => candidate.heading.toLowerCase() === section.trim().toLowerCase());
+      if (!match) {
+        throw new Error(
+          `No "${section}" section. Sections: ${sections.map((candidate) => candidate.heading).join(', ')}`,
+        );
+      }
+      return `## ${match.heading}\n${match.content}`;
+    },
+  },
+  {
+    name: 'update_session',
+    description:
+      "Replace or append to a section of the current user's AGP session file, e.g. to move tasks from In Progress to Next Up.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        section: { type: 'string', description: 'Section heading, e.g. In Progress; added when missing' },
+        content: { type: 'string', description: 'Markdown for the section, usually a list' },
+        mode: { type: 'string', enum: ['replace', 'append'], description: 'Defaults to append' },
+      },
+      required: ['section', 'content'],
+    },
+    async call(args) {
+      const section = requiredString(args, 'section');
+      const mode = optionalString(args, 'mode') === 'replace' ? 'replace' : 'append';
+      const { agpPath } = await resolveAgpPath();
+      const sessionPath = await getCurrentSessionPath(agpPath);
+
+      const current = await fs.readFile(sessionPath, 'utf8');
+      const updated = updateSessionSection(current, section, requiredString(args, 'content'), mode);
+      await fs.writeFile(sessionPath, updated);
+
+      const match = parseSessionSections(updated).find(
+        (candidate) => candidate.heading.toLowerCase() === section.trim().toLowerCase(),
+      );
+      return `Updated ${path.relative(process.cwd(), sessionPath)}:\n\n## ${match?.heading}\n${match?.content}`;
+    },
+  },
+  {
+    name: 'record_decision',
+    description: 'Record a decision, with a timestamp, under Decisions Made in the current AGP session.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        decision: { type: 'string', description: 'What was decided and why, in one sentence' },
+      },
+      required: ['decision'],
+    },
+    async call(args) {
+      const decision = requiredString(args, 'decision');
+      const { agpPath } = await resolveAgpPath();
+      return `Recorded: ${await recordSessionDecision(agpPath, decision)}`;
+    },
+  },
+  {
+    name: 'list_locks',
+    description: 'List the file locks held by the team, and overlapping claims.',
+    inputSchema: { type: 'object', properties: {} },
+    async call() {
+      await resolveAgpPath();
+      return await listLocks();
+    },
+  },
+  {
+    name: 'acquire_locks',
+    description:
+      'Lock files or directories so teammates know you are working on them. Fails when a teammate holds one, unless force is set.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        files: { type: 'array', items: { type: 'string' }, description: 'Paths relative to the project root' },
+        reason: { type: 'string', description: 'Why you are holding the locks' },
+        force: { type: 'boolean', description: 'Lock even if a teammate already holds a lock' },
+      },
+      required: ['files'],
+    },
+    async call(args) {
+      const reason = optionalString(args, 'reason');
+      await resolveAgpPath();
+      const locks = await lockFiles({
+        files: optionalStringArray(args, 'files') || [],
+        ...(reason ? { reason } : {}),
+        force: optionalBoolean(args, 'force') || false,
+      });
+      return { locked: locks, note: 'Locks are shared with the team on the next "agp push".' };
+    },
+  },
+  {
+    name: 'release_locks',
+    description: 'Release your locks on the given files, or all of your locks when no files are given.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        files: { type: 'array', items: { type: 'string' }, description: 'Paths relative to the project root' },
+      },
+    },
+    async call(args) {
+      const files = optionalStringArray(args, 'files');
+      await resolveAgpPath();
+      return { released: await unlockFiles({ files: files || [], all: !files }) };
+    },
+  },
+];
@@ -99,17 +99,37 @@ export async function pushAgpChanges(options: AgpPushOptions): Promise<void> {
   }
 }
 
+export interface ChangedFileGroups {
+  sessions: string[];
+  project: string[];
+  patterns: string[];
+  architecture: string[];
+  other: string[];
+}
+
+export function groupChangedFiles(changedFiles: string[]): ChangedFileGroups {
+  const groups: ChangedFileGroups = {
+    sessions: changedFiles.filter((f) => f.includes('sessions/')),
+    project: changedFiles.filter((f) => f.includes('project/')),
+    patterns: changedFiles.filter((f) => f.includes('patterns/')),
+    architecture: changedFiles.filter((f) => f.includes('architecture/')),
+    other: [],
+  };
+
+  const grouped = new Set([...groups.sessions, ...groups.project, ...groups.patterns, ...groups.architecture]);
+  groups.other = changedFiles.filter((f) => !grouped.has(f));
+
+  return groups;
+}
+
 function generateCommitMessage(changedFiles: string[]): string {
-  const sessionFiles = changedFiles.filter((f) => f.includes('sessions/'));
-  const knowledgeFiles = changedFiles.filter((f) => f.includes('project/'));
-  const patternFiles = changedFiles.filter((f) => f.includes('patterns/'));
-  const architectureFiles = changedFiles.filter((f) => f.includes('architecture/'));
+  const groups = groupChangedFiles(changedFiles);
 
   const parts = [];
-  if (sessionFiles.length > 0) parts.push('session progress');
-  if (knowledgeFiles.length > 0) parts.push('project knowledge');
-  if (patternFiles.length > 0) parts.push('patterns');
-  if (architectureFiles.length > 0) parts.push('architecture');
+  if (groups.sessions.length > 0) parts.push('session progress');
+  if (groups.project.length > 0) parts.push('project knowledge');
+  if (groups.patterns.length > 0) parts.push('patterns');
+  if (groups.architecture.length > 0) parts.push('architecture');
 
   if (parts.length === 0) return 'docs: update AGP knowledge';
 
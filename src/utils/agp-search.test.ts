@@ -0,0 +1,40 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { searchKnowledge } from './agp-search';
+
+describe('agp search', () => {
+  let projectPath: string;
+  let originalCwd: string;
+
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    projectPath = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'agp-search-')));
+
+    await fs.outputFile(
+      path.join(projectPath, '.agp/patterns/injection.md'),
+      '# Dependency injection\n\nServices receive their dependencies through the constructor.\n',
+    );
+    await fs.outputFile(path.join(projectPath, '.agp/patterns/errors.md'), '# Errors\n\nThrow typed errors.\n');
+
+    process.chdir(projectPath);
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await fs.remove(projectPath);
+  });
+
+  it('indexes words that are also Object.prototype property names', async () => {
+    const search = () => searchKnowledge({ query: 'constructor', sections: [], limit: 10, rebuild: false });
+
+    expect((await search()).map((result) => result.path)).toEqual(['.agp/patterns/injection.md']);
+    // Again from the index saved on disk
+    expect((await search()).map((result) => result.path)).toEqual(['.agp/patterns/injection.md']);
+
+    expect(Object.keys(Object)).toEqual([]);
+    const index = await fs.readJson(path.join(projectPath, '.agp/.search-index.json'));
+    expect(Object.keys(index.postings.constructor)).toEqual(['patterns/injection.md']);
+  });
+});
@@ -0,0 +1,381 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { AgpSearchOptions, SearchSection } from '../types';
+import { tryGit } from './git';
+import { isRecord } from './json';
+import { getSourcePathForKnowledge, parseFrontmatter } from './knowledge-files';
+
+export const SEARCH_SECTIONS: SearchSection[] = ['architecture', 'patterns', 'project', 'sessions'];
+
+/**
+ * Local to each clone and rebuilt on demand, so it is kept out of the knowledge repository
+ */
+export const SEARCH_INDEX_FILE = '.search-index.json';
+
+/**
+ * Where the index lives: the git directory of .agp, which `agp push` never commits from,
+ * or .agp itself when it is not a git repository, so there is nothing to commit it to
+ */
+async function getSearchIndexPath(agpPath: string): Promise<string> {
+  const gitDir = await tryGit(['rev-parse', '--absolute-git-dir'], agpPath);
+  return path.join(gitDir || agpPath, SEARCH_INDEX_FILE);
+}
+
+/**
+ * Bump when the index layout or tokenization changes; older indexes are rebuilt
+ */
+const SEARCH_INDEX_VERSION = 1;
+
+/**
+ * Inverted index over the markdown files of .agp:
+ *
+ *   postings[term][file] = [body count, heading count, title count]
+ *
+ * Each document remembers its mtime and size, so only files that changed since the last
+ * search are read again, and its terms, so its postings can be dropped when it changes.
+ */
+interface SearchIndex {
+  version: number;
+  documents: Record<string, IndexedDocument>;
+  postings: Record<string, Record<string, [number, number, number]>>;
+}
+
+interface IndexedDocument {
+  mtimeMs: number;
+  size: number;
+  section: SearchSection;
+  title: string;
+  /**
+   * Source file a project knowledge file describes
+   */
+  source?: string;
+  /**
+   * Number of indexed words, for length normalization
+   */
+  length: number;
+  terms: string[];
+}
+
+export interface SearchResult {
+  /**
+   * Path relative to the project root, e.g. .agp/project/src/cli.ts.md
+   */
+  path: string;
+  section: SearchSection;
+  title: string;
+  source?: string;
+  score: number;
+  /**
+   * Heading the snippet sits under, if any
+   */
+  heading?: string;
+  snippet: string;
+  line: number;
+}
+
+export interface SearchIndexUpdate {
+  indexed: number;
+  removed: number;
+  total: number;
+}
+
+/**
+ * Words that match nearly every document and would only add noise
+ */
+// prettier-ignore
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it', 'of', 'on', 'or',
+  'the', 'this', 'that', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'with',
+]);
+
+/**
+ * Field weights: a query word in a document's title or a heading says more than one in
+ * its body
+ */
+const HEADING_BOOST = 3;
+const TITLE_BOOST = 5;
+
+/**
+ * BM25 parameters
+ */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const SNIPPET_LENGTH = 160;
+
+export async function searchKnowledge(options: AgpSearchOptions): Promise<SearchResult[]> {
+  const agpPath = path.join(process.cwd(), '.agp');
+
+  // Check if .agp directory exists
+  if (!(await fs.pathExists(agpPath))) {
+    throw new Error('AGP directory not found. Run "agp init" first.');
+  }
+
+  const queryTerms = [...new Set(tokenize(options.query))];
+  if (queryTerms.length === 0) {
+    throw new Error('Search for at least one word that is not a common word like "the" or "how".');
+  }
+
+  const { index } = await updateSearchIndex(agpPath, options.rebuild);
+  const sections = options.sections.length > 0 ? options.sections : SEARCH_SECTIONS;
+  const documents = Object.entries(index.documents).filter(([, document]) => sections.includes(document.section));
+  if (documents.length === 0) {
+    return [];
+  }
+
+  const averageLength = documents.reduce((total, [, document]) => total + document.length, 0) / documents.length;
+  const scores = new Map<string, { score: number; matched: number }>();
+
+  for (const term of queryTerms) {
+    const postings = Object.entries(index.postings[term] || {}).filter(([file]) =>
+      sections.includes(index.documents[file]!.section),
+    );
+    const idf = Math.log(1 + (documents.length - postings.length + 0.5) / (postings.length + 0.5));
+
+    for (const [file, [body, heading, title]] of postings) {
+      const frequency = body + HEADING_BOOST * heading + TITLE_BOOST * title;
+      const normalization = 1 - BM25_B + (BM25_B * index.documents[file]!.length) / (averageLength || 1);
+      const termScore = (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * normalization);
+
+      const current = scores.get(file) || { score: 0, matched: 0 };
+      scores.set(file, { score: current.score + termScore, matched: current.matched + 1 });
+    }
+  }
+
+  // Documents matching every query word rank above those matching only some
+  const ranked = [...scores]
+    .map(([file, { score, matched }]) => ({ file, score: score * (matched / queryTerms.length) }))
+    .sort((a, b) => b.score - a.score || a.file.localeCompare(b.file))
+    .slice(0, options.limit);
+
+  const results: SearchResult[] = [];
+  for (const { file, score } of ranked) {
+    const document = index.documents[file]!;
+    const content = await fs.readFile(path.join(agpPath, file), 'utf8');
+    const result: SearchResult = {
+      path: `.agp/${file}`,
+      section: document.section,
+      title: document.title,
+      score: Math.round(score * 100) / 100,
+      ...findSnippet(content, queryTerms),
+    };
+    if (document.source) result.source = document.source;
+    results.push(result);
+  }
+  return results;
+}
+
+/**
+ * Bring the index in line with the files on disk, re-reading only files whose mtime or
+ * size changed. `rebuild` discards the existing index first.
+ */
+export async function updateSearchIndex(
+  agpPath: string,
+  rebuild = false,
+): Promise<SearchIndexUpdate & { index: SearchIndex }> {
+  const indexPath = await getSearchIndexPath(agpPath);
+  const worktreeIndexPath = path.join(agpPath, SEARCH_INDEX_FILE);
+  if (indexPath !== worktreeIndexPath) {
+    // Earlier versions kept the index in the worktree, where it could be committed
+    await fs.remove(worktreeIndexPath);
+  }
+
+  const empty: SearchIndex = { version: SEARCH_INDEX_VERSION, documents: createMap(), postings: createMap() };
+  let index = rebuild ? empty : (await readSearchIndex(indexPath)) || empty;
+  if (index.version !== SEARCH_INDEX_VERSION) {
+    index = empty;
+  }
+
+  const files = await listSearchableFiles(agpPath);
+  let indexed = 0;
+  let removed = 0;
+
+  for (const file of Object.keys(index.documents)) {
+    if (!files.has(file)) {
+      removeDocument(index, file);
+      removed++;
+    }
+  }
+
+  for (const [file, stat] of files) {
+    const existing = index.documents[file];
+    if (existing && existing.mtimeMs === stat.mtimeMs && existing.size === stat.size) continue;
+
+    if (existing) {
+      removeDocument(index, file);
+    }
+    addDocument(agpPath, index, file, await fs.readFile(path.join(agpPath, file), 'utf8'), stat);
+    indexed++;
+  }
+
+  if (indexed > 0 || removed > 0 || !(await fs.pathExists(indexPath))) {
+    await fs.writeFile(indexPath, JSON.stringify(index));
+  }
+
+  return { indexed, removed, total: files.size, index };
+}
+
+/**
+ * Terms and file names are arbitrary words, so the index maps have no prototype for a term
+ * like "constructor" to resolve to
+ */
+function createMap<T>(): Record<string, T> {
+  return Object.create(null);
+}
+
+async function readSearchIndex(indexPath: string): Promise<SearchIndex | null> {
+  try {
+    return JSON.parse(await fs.readFile(indexPath, 'utf8'), (_key, value: unknown) =>
+      isRecord(value) ? Object.assign(createMap(), value) : value,
+    );
+  } catch {
+    return null;
+  }
+}
+
+async function listSearchableFiles(agpPath: string): Promise<Map<string, fs.Stats>> {
+  const files = new Map<string, fs.Stats>();
+
+  async function scanDirectory(dirPath: string): Promise<void> {
+    if (!(await fs.pathExists(dirPath))) return;
+
+    for (const item of await fs.readdir(dirPath)) {
+      const fullPath = path.join(dirPath, item);
+      const stat = await fs.stat(fullPath);
+
+      if (stat.isDirectory()) {
+        await scanDirectory(fullPath);
+      } else if (item.endsWith('.md')) {
+        files.set(path.relative(agpPath, fullPath).split(path.sep).join('/'), stat);
+      }
+    }
+  }
+
+  for (const section of SEARCH_SECTIONS) {
+    await scanDirectory(path.join(agpPath, section));
+  }
+  return files;
+}
+
+function addDocument(agpPath: string, index: SearchIndex, file: string, content: string, stat: fs.Stats): void {
+  const section = file.split('/')[0] as SearchSection;
+  const { body } = parseFrontmatter(content);
+  const source = section === 'project' ? getSourcePathForKnowledge(agpPath, path.join(agpPath, file)) : undefined;
+  const title = body.match(/^#\s+(.+)$/m)?.[1]?.trim() || path.posix.basename(file, '.md');
+
+  const counts = new Map<string, [number, number, number]>();
+  const count = (text: string, field: 0 | 1 | 2) => {
+    for (const term of tokenize(text)) {
+      const entry = counts.get(term) || [0, 0, 0];
+      entry[field]++;
+      counts.set(term, entry);
+    }
+  };
+
+  let length = 0;
+  for (const line of body.split('\n')) {
+    const heading = line.match(/^#{1,6}\s+(.+)$/);
+    count(heading ? heading[1]! : line, heading ? 1 : 0);
+    length += tokenize(line).length;
+  }
+  // The source path makes knowledge findable by file name, e.g. "retry" for src/net/retry.ts
+  count(`${title} ${source || ''}`, 2);
+
+  for (const [term, entry] of counts) {
+    (index.postings[term] ||= createMap())[file] = entry;
+  }
+
+  index.documents[file] = {
+    mtimeMs: stat.mtimeMs,
+    size: stat.size,
+    section,
+    title,
+    ...(source ? { source } : {}),
+    length,
+    terms: [...counts.keys()],
+  };
+}
+
+function removeDocument(index: SearchIndex, file: string): void {
+  for (const term of index.documents[file]?.terms || []) {
+    const postings = index.postings[term];
+    if (!postings) continue;
+
+    delete postings[file];
+    if (Object.keys(postings).length === 0) {
+      delete index.postings[term];
+    }
+  }
+  delete index.documents[file];
+}
+
+/**
+ * Lowercased words with a light suffix stemming, so "retries" and "retrying" find "retry"
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * The line matching the most query words, cut around the first match, and the heading
+ * above it. A body line wins a tie with a heading; a matching heading is shown with the
+ * first line below it.
+ */
+function findSnippet(content: string, queryTerms: string[]): { heading?: string; snippet: string; line: number } {
+  const { body } = parseFrontmatter(content);
+  const offset = content.slice(0, content.length - body.length).split('\n').length - 1;
+  const lines = body.split('\n');
+  const headingAt = (index: number) => lines[index]?.match(/^#{1,6}\s+(.+)$/)?.[1]?.trim();
+
+  let best = { index: -1, score: 0 };
+  lines.forEach((line, index) => {
+    const words = new Set(tokenize(line));
+    const score = queryTerms.filter((term) => words.has(term)).length - (headingAt(index) ? 0.5 : 0);
+    if (score > best.score) {
+      best = { index, score };
+    }
+  });
+
+  let index = best.index;
+  if (index < 0 || headingAt(index)) {
+    const next = lines.findIndex((line, lineIndex) => lineIndex > index && line.trim() && !headingAt(lineIndex));
+    if (next >= 0) index = next;
+  }
+
+  let headingIndex = index;
+  while (headingIndex >= 0 && !headingAt(headingIndex)) headingIndex--;
+  const heading = headingIndex >= 0 ? headingAt(headingIndex) : undefined;
+
+  const line = (lines[index] || '').replace(/^#{1,6}\s+/, '').trim();
+  const firstMatch = line.toLowerCase().search(new RegExp(queryTerms.map(escapeRegExp).join('|')));
+  return {
+    ...(heading ? { heading } : {}),
+    snippet: clip(line, Math.max(firstMatch, 0)),
+    line: offset + Math.max(index, 0) + 1,
+  };
+}
+
+function clip(line: string, matchIndex: number): string {
+  const text = line.trim();
+  if (text.length <= SNIPPET_LENGTH) {
+    return text;
+  }
+
+  const start = Math.max(0, Math.min(matchIndex - SNIPPET_LENGTH / 4, text.length - SNIPPET_LENGTH));
+  const clipped = text.slice(start, start + SNIPPET_LENGTH).trim();
+  return `${start > 0 ? '…' : ''}${clipped}${start + SNIPPET_LENGTH < text.length ? '…' : ''}`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
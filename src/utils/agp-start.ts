@@ -1,40 +1,33 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-
-interface AgpConfig {
-  session: {
-    user: string;
-    current: string;
-  };
-  submodule: {
-    repository: string;
-    lastUpdated: string;
-  };
+import { AgpStartOptions } from '../types';
+import { readAgpConfig, writeAgpConfig } from './agp-config';
+import {
+  FileLock,
+  LockConflict,
+  findLockConflicts,
+  findLocksHeldByOthers,
+  normalizeLockPath,
+  readLocks,
+} from './agp-locks';
+
+export interface AgpStartResult {
+  userName: string;
+  lockedByOthers: FileLock[];
+  lockConflicts: LockConflict[];
 }
 
-export async function startAgpSession(): Promise<void> {
+export async function startAgpSession(options: AgpStartOptions): Promise<AgpStartResult> {
   const cwd = process.cwd();
   const agpPath = path.join(cwd, '.agp');
-  const configPath = path.join(agpPath, '.config.json');
-
 
   // Check if AGP is initialized
   if (!(await fs.pathExists(agpPath))) {
     throw new Error('AGP not initialized. Run "agp init" first.');
   }
 
-  if (!(await fs.pathExists(configPath))) {
-    throw new Error('AGP config not found. Run "agp init" to reinitialize.');
-  }
-
   // Read existing config
-  let config: AgpConfig;
-  try {
-    const configContent = await fs.readFile(configPath, 'utf8');
-    config = JSON.parse(configContent);
-  } catch (error) {
-    throw new Error('Failed to read AGP config. Please run "agp init" to reinitialize.');
-  }
+  const config = await readAgpConfig(agpPath);
 
   // Get or prompt for user name
   let userName = config.session.user;
@@ -77,9 +70,17 @@ export async function startAgpSession(): Promise<void> {
   config.session.user = userName;
   config.session.current = `.agp/sessions/${userName}/index.md`;
 
-  await fs.writeFile(configPath, JSON.stringify(config, null, 2));
+  await writeAgpConfig(agpPath, config);
 
-  // Success handled by spinner
+  // Warn about files teammates are holding; without explicit files, report every foreign lock
+  const locks = await readLocks(agpPath);
+  const filePaths = options.files.length > 0 ? options.files.map((file) => normalizeLockPath(cwd, file)) : undefined;
+
+  return {
+    userName,
+    lockedByOthers: findLocksHeldByOthers(locks, userName, filePaths),
+    lockConflicts: findLockConflicts(locks),
+  };
 }
 
 async function createNewSessionFile(sessionFilePath: string, userName: string): Promise<void> {
@@ -99,7 +100,7 @@ async function createNewSessionFile(sessionFilePath: string, userName: string):
 - [ ] Review .agp/patterns/overview.md for implementation patterns
 
 ## Decisions Made
-- ${new Date().toISOString().split('T')[0]} ${new Date().toTimeString().split(' ')[0]}: Started using AGP for project management
+- ${formatSessionTimestamp(new Date())}: Started using AGP for project management
 
 ## Notes & Context
 - First session created
@@ -118,3 +119,96 @@ async function loadExistingSession(sessionFilePath: string): Promise<void> {
   }
 }
 
+export interface SessionSection {
+  /**
+   * Heading text without the leading `## `
+   */
+  heading: string;
+  content: string;
+}
+
+/**
+ * Placeholder a fresh session file puts in empty sections, e.g. "(No blocked tasks)"
+ */
+const EMPTY_SECTION_PATTERN = /^\([^)\n]*\)$/;
+
+export function formatSessionTimestamp(date: Date): string {
+  return `${date.toISOString().split('T')[0]} ${date.toTimeString().split(' ')[0]}`;
+}
+
+/**
+ * The session file of the current user, as recorded by `agp start`
+ */
+export async function getCurrentSessionPath(agpPath: string): Promise<string> {
+  const config = await readAgpConfig(agpPath);
+  const sessionFile = config.session.current?.trim();
+  if (!config.session.user?.trim() || !sessionFile) {
+    throw new Error('No active session. Run "agp start" first.');
+  }
+
+  const sessionPath = path.join(path.dirname(agpPath), sessionFile);
+  if (!(await fs.pathExists(sessionPath))) {
+    throw new Error(`Session file ${sessionFile} is missing. Run "agp start" to recreate it.`);
+  }
+  return sessionPath;
+}
+
+/**
+ * Split a session file into its `## ` sections
+ */
+export function parseSessionSections(content: string): SessionSection[] {
+  const sections: SessionSection[] = [];
+
+  for (const part of content.split(/^## /m).slice(1)) {
+    const newline = part.indexOf('\n');
+    sections.push({
+      heading: (newline < 0 ? part : part.slice(0, newline)).trim(),
+      content: newline < 0 ? '' : part.slice(newline + 1).trim(),
+    });
+  }
+  return sections;
+}
+
+/**
+ * Replace a section's content, or append to it, leaving the other sections as they are.
+ * A missing section is added at the end; an empty-section placeholder is dropped on append.
+ */
+export function updateSessionSection(
+  content: string,
+  heading: string,
+  text: string,
+  mode: 'replace' | 'append',
+): string {
+  const section = parseSessionSections(content).find(
+    (candidate) => candidate.heading.toLowerCase() === heading.trim().toLowerCase(),
+  );
+  if (!section) {
+    return `${content.trimEnd()}\n\n## ${heading.trim()}\n${text.trim()}\n`;
+  }
+
+  const keepExisting = mode === 'append' && section.content && !EMPTY_SECTION_PATTERN.test(section.content);
+  const body = keepExisting ? `${section.content}\n${text.trim()}` : text.trim();
+
+  const start = content.search(new RegExp(`^## ${escapeRegExp(section.heading)}[ \\t]*$`, 'm'));
+  const next = content.slice(start + 3).search(/^## /m);
+  const end = next < 0 ? content.length : start + 3 + next;
+  const after = content.slice(end);
+
+  return `${content.slice(0, start)}## ${section.heading}\n${body}\n${after ? `\n${after}` : ''}`;
+}
+
+/**
+ * Add a timestamped entry to "Decisions Made" in the current user's session
+ */
+export async function recordSessionDecision(agpPath: string, decision: string): Promise<string> {
+  const sessionPath = await getCurrentSessionPath(agpPath);
+  const entry = `- ${formatSessionTimestamp(new Date())}: ${decision.trim().replace(/\s*\n\s*/g, ' ')}`;
+
+  const content = await fs.readFile(sessionPath, 'utf8');
+  await fs.writeFile(sessionPath, updateSessionSection(content, 'Decisions Made', entry, 'append'));
+  return entry;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,146 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { AgpStatusOptions } from '../types';
+import { readAgpConfig } from './agp-config';
+import { ConnectionStatus, getConnectionStatus } from './agp-connect';
+import { ChangedFileGroups, groupChangedFiles } from './agp-push';
+import { resolveBranch } from './agp-sync';
+import { tryGit } from './git';
+
+export interface AgpStatusReport {
+  session: {
+    user: string | null;
+    file: string | null;
+    exists: boolean;
+  };
+  pending: {
+    total: number;
+    groups: ChangedFileGroups;
+  };
+  remote: {
+    state: 'up-to-date' | 'ahead' | 'behind' | 'diverged' | 'no-remote' | 'unknown';
+    ref: string | null;
+    ahead: number;
+    behind: number;
+    fetched: boolean;
+  };
+  pointer: {
+    state: 'current' | 'staged' | 'stale' | 'not-a-submodule';
+    recorded: string | null;
+    actual: string | null;
+  };
+  connections: ConnectionStatus[];
+}
+
+export async function getAgpStatus(options: AgpStatusOptions): Promise<AgpStatusReport> {
+  const cwd = process.cwd();
+  const agpPath = path.join(cwd, '.agp');
+
+  // Check if .agp directory exists
+  if (!(await fs.pathExists(agpPath))) {
+    throw new Error('AGP directory not found. Run "agp init" first.');
+  }
+
+  // Check if .agp is a git repository
+  if (!(await fs.pathExists(path.join(agpPath, '.git')))) {
+    throw new Error('AGP directory is not a git repository. Please check your setup.');
+  }
+
+  const config = await readAgpConfig(agpPath);
+
+  return {
+    session: await getSessionStatus(cwd, config.session),
+    pending: await getPendingStatus(agpPath),
+    remote: await getRemoteStatus(agpPath, cwd, options.fetch),
+    pointer: await getPointerStatus(agpPath, cwd),
+    connections: await getConnectionStatus(cwd, config),
+  };
+}
+
+async function getSessionStatus(
+  cwd: string,
+  session: { user: string; current: string },
+): Promise<AgpStatusReport['session']> {
+  const user = session.user?.trim() || null;
+  const file = session.current?.trim() || null;
+
+  return {
+    user,
+    file,
+    exists: file ? await fs.pathExists(path.join(cwd, file)) : false,
+  };
+}
+
+async function getPendingStatus(agpPath: string): Promise<AgpStatusReport['pending']> {
+  // -z keeps paths unquoted; renames and copies are "XY new\0old\0", so skip the old path
+  const status = (await tryGit(['status', '--porcelain', '-z', '--untracked-files=all'], agpPath)) || '';
+  const entries = status.split('\0').filter(Boolean);
+  const changedFiles: string[] = [];
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index]!;
+    changedFiles.push(entry.slice(3));
+    if (entry[0] === 'R' || entry[0] === 'C') {
+      index++;
+    }
+  }
+
+  return {
+    total: changedFiles.length,
+    groups: groupChangedFiles(changedFiles),
+  };
+}
+
+async function getRemoteStatus(agpPath: string, cwd: string, shouldFetch: boolean): Promise<AgpStatusReport['remote']> {
+  const noRemote: AgpStatusReport['remote'] = { state: 'no-remote', ref: null, ahead: 0, behind: 0, fetched: false };
+
+  if (!(await tryGit(['remote', 'get-url', 'origin'], agpPath))) {
+    return noRemote;
+  }
+
+  // A failed fetch (e.g. offline) still lets us compare against the last known remote state
+  const fetched = shouldFetch && (await tryGit(['fetch', 'origin'], agpPath)) !== null;
+
+  const upstream = await tryGit(['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{u}'], agpPath);
+  const ref = upstream || `origin/${await resolveBranch(agpPath, cwd)}`;
+
+  const counts = await tryGit(['rev-list', '--left-right', '--count', `HEAD...${ref}`], agpPath);
+  if (!counts) {
+    return { state: 'unknown', ref, ahead: 0, behind: 0, fetched };
+  }
+
+  const [ahead = 0, behind = 0] = counts.split(/\s+/).map(Number);
+  let state: AgpStatusReport['remote']['state'] = 'up-to-date';
+  if (ahead > 0 && behind > 0) {
+    state = 'diverged';
+  } else if (ahead > 0) {
+    state = 'ahead';
+  } else if (behind > 0) {
+    state = 'behind';
+  }
+
+  return { state, ref, ahead, behind, fetched };
+}
+
+async function getPointerStatus(agpPath: string, cwd: string): Promise<AgpStatusReport['pointer']> {
+  const actual = await tryGit(['rev-parse', 'HEAD'], agpPath);
+
+  // Gitlink entries have mode 160000: "160000 <sha> <stage>\t.agp"
+  const indexEntry = await tryGit(['ls-files', '--stage', '--', '.agp'], cwd);
+  const staged = indexEntry?.startsWith('160000 ') ? indexEntry.split(/\s+/)[1] || null : null;
+  if (!staged) {
+    return { state: 'not-a-submodule', recorded: null, actual };
+  }
+
+  // "160000 commit <sha>\t.agp"
+  const treeEntry = await tryGit(['ls-tree', 'HEAD', '--', '.agp'], cwd);
+  const recorded = treeEntry ? treeEntry.split(/\s+/)[2] || null : null;
+
+  let state: AgpStatusReport['pointer']['state'] = 'stale';
+  if (recorded === actual) {
+    state = 'current';
+  } else if (staged === actual) {
+    state = 'staged';
+  }
+
+  return { state, recorded, actual };
+}
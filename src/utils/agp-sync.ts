@@ -0,0 +1,222 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { AgpSyncOptions } from '../types';
+import { readAgpConfig, writeAgpConfig } from './agp-config';
+import { LockConflict, findLockConflicts, readLocks } from './agp-locks';
+import { git, isAncestor, listConflictedFiles, tryGit } from './git';
+
+export interface AgpSyncResult {
+  branch: string;
+  incoming: number;
+  outgoing: number;
+  integrated: 'up-to-date' | 'fast-forward' | 'rebase' | 'merge';
+  pointerUpdated: boolean;
+  lockConflicts: LockConflict[];
+}
+
+const DEFAULT_BRANCH = 'main';
+const AUTOSTASH_MESSAGE = 'agp sync autostash';
+
+export async function syncAgpKnowledge(options: AgpSyncOptions): Promise<AgpSyncResult> {
+  const cwd = process.cwd();
+  const agpPath = path.join(cwd, '.agp');
+
+  // Check if .agp directory exists
+  if (!(await fs.pathExists(agpPath))) {
+    throw new Error('AGP directory not found. Run "agp init" first.');
+  }
+
+  // Check if .agp is a git repository
+  if (!(await fs.pathExists(path.join(agpPath, '.git')))) {
+    throw new Error('AGP directory is not a git repository. Please check your setup.');
+  }
+
+  if (!(await tryGit(['remote', 'get-url', 'origin'], agpPath))) {
+    throw new Error('AGP repository has no "origin" remote. Please check your setup.');
+  }
+
+  // Refuse to start on top of an interrupted rebase or merge
+  if ((await listConflictedFiles(agpPath)).length > 0) {
+    throw new Error('AGP repository has unresolved conflicts. Resolve them in .agp before syncing.');
+  }
+
+  const branch = await resolveBranch(agpPath, cwd);
+  const remoteRef = `origin/${branch}`;
+
+  await git(['fetch', 'origin'], agpPath);
+
+  if (!(await tryGit(['rev-parse', '--verify', '-q', remoteRef], agpPath))) {
+    throw new Error(`Remote branch ${remoteRef} not found. Push your knowledge with "agp push" first.`);
+  }
+
+  const stashed = await stashLocalChanges(agpPath);
+  let result: AgpSyncResult;
+
+  try {
+    await attachToBranch(agpPath, branch);
+
+    const counts = await git(['rev-list', '--left-right', '--count', `HEAD...${remoteRef}`], agpPath);
+    const [outgoing = 0, incoming = 0] = counts.split(/\s+/).map(Number);
+
+    result = {
+      branch,
+      incoming,
+      outgoing,
+      integrated: await integrateRemote(agpPath, remoteRef, incoming, outgoing, options.strategy),
+      pointerUpdated: false,
+      lockConflicts: [],
+    };
+  } finally {
+    if (stashed) {
+      await restoreLocalChanges(agpPath);
+    }
+  }
+
+  // Teammates may have locked the same files while we were offline
+  result.lockConflicts = findLockConflicts(await readLocks(agpPath));
+
+  // Update submodule reference in parent repository
+  result.pointerUpdated = await updateSubmodulePointer(cwd);
+
+  try {
+    const config = await readAgpConfig(agpPath);
+    config.submodule.lastUpdated = new Date().toISOString();
+    await writeAgpConfig(agpPath, config);
+  } catch {
+    // Missing config does not affect the sync itself
+  }
+
+  return result;
+}
+
+/**
+ * Determine which branch to sync: the checked-out one, or the remote default when HEAD is detached
+ */
+export async function resolveBranch(agpPath: string, cwd: string): Promise<string> {
+  const current = await tryGit(['symbolic-ref', '-q', '--short', 'HEAD'], agpPath);
+  if (current) {
+    return current;
+  }
+
+  const configured = await tryGit(['config', '-f', '.gitmodules', 'submodule..agp.branch'], cwd);
+  if (configured && configured !== '.') {
+    return configured;
+  }
+
+  const remoteHead = await tryGit(['symbolic-ref', '-q', '--short', 'refs/remotes/origin/HEAD'], agpPath);
+  if (remoteHead) {
+    return remoteHead.replace(/^origin\//, '');
+  }
+
+  return DEFAULT_BRANCH;
+}
+
+/**
+ * Move a detached HEAD (the default state after `git submodule update`) onto the sync branch
+ * without dropping commits made while detached.
+ */
+async function attachToBranch(agpPath: string, branch: string): Promise<void> {
+  const current = await tryGit(['symbolic-ref', '-q', '--short', 'HEAD'], agpPath);
+
+  if (current !== branch) {
+    const localBranch = await tryGit(['rev-parse', '--verify', '-q', `refs/heads/${branch}`], agpPath);
+
+    if (!localBranch) {
+      await git(['checkout', '-b', branch], agpPath);
+    } else if (await isAncestor('HEAD', branch, agpPath)) {
+      await git(['checkout', branch], agpPath);
+    } else if (await isAncestor(branch, 'HEAD', agpPath)) {
+      await git(['checkout', '-B', branch], agpPath);
+    } else {
+      throw new Error(
+        `AGP HEAD has diverged from local branch "${branch}". Check out the commits you want to keep in .agp and run "agp sync" again.`,
+      );
+    }
+  }
+
+  await tryGit(['branch', `--set-upstream-to=origin/${branch}`], agpPath);
+}
+
+async function integrateRemote(
+  agpPath: string,
+  remoteRef: string,
+  incoming: number,
+  outgoing: number,
+  strategy: AgpSyncOptions['strategy'],
+): Promise<AgpSyncResult['integrated']> {
+  if (incoming === 0) {
+    return 'up-to-date';
+  }
+
+  if (outgoing === 0) {
+    await git(['merge', '--ff-only', remoteRef], agpPath);
+    return 'fast-forward';
+  }
+
+  try {
+    if (strategy === 'merge') {
+      await git(['merge', '--no-edit', remoteRef], agpPath);
+    } else {
+      await git(['rebase', remoteRef], agpPath);
+    }
+    return strategy;
+  } catch (error) {
+    const conflictedFiles = await listConflictedFiles(agpPath);
+
+    // Never leave the submodule mid-rebase or mid-merge
+    await tryGit([strategy, '--abort'], agpPath);
+
+    if (conflictedFiles.length > 0) {
+      throw new Error(
+        formatConflictMessage(conflictedFiles, 'You and a teammate both edited the same knowledge') +
+          `\nThe ${strategy} was aborted and .agp is back on its branch with your commits intact.` +
+          '\nReconcile the files above with your teammate, or retry with a different --strategy.',
+      );
+    }
+
+    throw error;
+  }
+}
+
+async function stashLocalChanges(agpPath: string): Promise<boolean> {
+  const status = await git(['status', '--porcelain'], agpPath);
+  if (!status.trim()) {
+    return false;
+  }
+
+  await git(['stash', 'push', '--include-untracked', '-m', AUTOSTASH_MESSAGE], agpPath);
+  return true;
+}
+
+async function restoreLocalChanges(agpPath: string): Promise<void> {
+  try {
+    await git(['stash', 'pop'], agpPath);
+  } catch (error) {
+    const conflictedFiles = await listConflictedFiles(agpPath);
+
+    if (conflictedFiles.length > 0) {
+      throw new Error(
+        formatConflictMessage(conflictedFiles, 'Your uncommitted knowledge changes conflict with incoming changes') +
+          '\nResolve the conflict markers in .agp, then run "git stash drop" inside .agp.',
+      );
+    }
+
+    throw error;
+  }
+}
+
+async function updateSubmodulePointer(cwd: string): Promise<boolean> {
+  // Uncommitted edits inside .agp show up in `git status` too; only a moved commit needs recording
+  const changed = await tryGit(['diff', '--name-only', '--ignore-submodules=dirty', 'HEAD', '--', '.agp'], cwd);
+  if (!changed) {
+    return false;
+  }
+
+  await git(['add', '.agp'], cwd);
+  await git(['commit', '-m', 'chore: update AGP submodule pointer', '--', '.agp'], cwd);
+  return true;
+}
+
+function formatConflictMessage(files: string[], reason: string): string {
+  return [`${reason} in ${files.length} file(s):`, ...files.map((file) => `  - .agp/${file}`)].join('\n');
+}
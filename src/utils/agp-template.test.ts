@@ -0,0 +1,80 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { updateAgpTemplate } from './agp-template';
+import { fetchTemplate } from './template-cache';
+
+// NUL bytes and invalid UTF-8 sequences, as in real images
+const LOGO_V1 = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe, 0x01]);
+const LOGO_V2 = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xc3, 0x28, 0x02]);
+const LOGO_LOCAL = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xa0, 0xa1, 0x03]);
+
+describe('agp template update', () => {
+  let workPath: string;
+  let templatePath: string;
+  let originalCwd: string;
+  let originalCacheHome: string | undefined;
+
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    originalCacheHome = process.env['XDG_CACHE_HOME'];
+    workPath = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'agp-template-update-')));
+    process.env['XDG_CACHE_HOME'] = path.join(workPath, 'cache');
+
+    templatePath = path.join(workPath, 'template');
+    await fs.outputFile(path.join(templatePath, 'instructions.md'), '# Instructions\n\nUse tabs.\n');
+    await fs.outputFile(path.join(templatePath, 'assets/logo.png'), LOGO_V1);
+    await fs.outputFile(path.join(templatePath, 'assets/icon.png'), LOGO_V1);
+
+    // Initialize .agp from the first template version, then upgrade the template
+    const { pin } = await fetchTemplate(templatePath);
+    const agpPath = path.join(workPath, 'project/.agp');
+    await fs.copy(templatePath, agpPath);
+    await fs.outputJson(path.join(agpPath, '.config.json'), {
+      session: { user: 'alice', current: '' },
+      submodule: { repository: '', lastUpdated: '' },
+      template: pin,
+    });
+
+    await fs.outputFile(path.join(templatePath, 'instructions.md'), '# Instructions\n\nUse tabs.\n\nWrite tests.\n');
+    await fs.outputFile(path.join(templatePath, 'assets/logo.png'), LOGO_V2);
+    await fs.outputFile(path.join(templatePath, 'assets/icon.png'), LOGO_V2);
+
+    process.chdir(path.join(workPath, 'project'));
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    if (originalCacheHome === undefined) {
+      delete process.env['XDG_CACHE_HOME'];
+    } else {
+      process.env['XDG_CACHE_HOME'] = originalCacheHome;
+    }
+    await fs.remove(workPath);
+  });
+
+  it('keeps a binary file changed on both sides instead of merging it', async () => {
+    await fs.writeFile('.agp/assets/logo.png', LOGO_LOCAL);
+    await fs.writeFile('.agp/instructions.md', '# Team instructions\n\nUse tabs.\n');
+
+    const result = await updateAgpTemplate({ dryRun: false });
+
+    expect(result.files).toEqual([
+      { path: 'assets/icon.png', status: 'updated' },
+      { path: 'assets/logo.png', status: 'kept' },
+      { path: 'instructions.md', status: 'merged' },
+    ]);
+    expect(await fs.readFile('.agp/assets/logo.png')).toEqual(LOGO_LOCAL);
+    expect(await fs.readFile('.agp/instructions.md', 'utf8')).toBe(
+      '# Team instructions\n\nUse tabs.\n\nWrite tests.\n',
+    );
+  });
+
+  it('replaces an unchanged binary file byte for byte', async () => {
+    await updateAgpTemplate({ dryRun: false });
+
+    expect(await fs.readFile('.agp/assets/icon.png')).toEqual(LOGO_V2);
+    expect(await fs.readFile('.agp/assets/logo.png')).toEqual(LOGO_V2);
+  });
+});
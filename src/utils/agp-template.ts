@@ -0,0 +1,398 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AgpTemplateInitOptions,
+  AgpTemplateUpdateOptions,
+  AgpTemplateValidateOptions,
+  TemplateManifest,
+  TemplatePin,
+} from '../types';
+import { readAgpConfig, writeAgpConfig } from './agp-config';
+import { DEFAULT_TEMPLATE_URL, getRequiredEntries, setupAgpStructure } from './agp-init';
+import { hasGeneratedRegions } from './generated-regions';
+import { mergeFileContents } from './git';
+import { detectProjectType } from './project-detector';
+import { fetchTemplate, getPinnedTemplatePath } from './template-cache';
+import { downloadTemplate, formatTemplateSource, parseTemplateSource } from './template-manager';
+import {
+  DEFAULT_TEMPLATE_MANIFEST,
+  findPlaceholderProblems,
+  getProjectVariables,
+  isTemplateTextFile,
+  readTemplateManifest,
+  renderPlaceholders,
+  TEMPLATE_MANIFEST_FILE,
+} from './template-manifest';
+
+export interface TemplateFileUpdate {
+  path: string;
+  /**
+   * - added: new in the template
+   * - updated: unchanged locally, replaced with the new template version
+   * - merged: local and template changes combined cleanly
+   * - conflict: merged with conflict markers to resolve by hand
+   * - kept: local version kept because there is no pinned base to merge against, the file
+   *   is binary and changed on both sides, or the template dropped a file that was changed
+   *   locally
+   * - removed: dropped from the template and unchanged locally
+   * - skipped: deleted locally, or owned by the analyzer (has generated regions)
+   */
+  status: 'added' | 'updated' | 'merged' | 'conflict' | 'kept' | 'removed' | 'skipped';
+  conflicts?: number;
+}
+
+export interface TemplateUpdateResult {
+  previous?: TemplatePin;
+  current: TemplatePin;
+  files: TemplateFileUpdate[];
+}
+
+/**
+ * Upgrade template-owned files to the latest template version. Each file is merged three
+ * ways: the pinned template version is the base, the local file is ours and the new
+ * template version is theirs, so local customizations survive the upgrade.
+ */
+export async function updateAgpTemplate(options: AgpTemplateUpdateOptions): Promise<TemplateUpdateResult> {
+  const cwd = process.cwd();
+  const agpPath = path.join(cwd, '.agp');
+
+  // Check if AGP is initialized
+  if (!(await fs.pathExists(agpPath))) {
+    throw new Error('AGP not initialized. Run "agp init" first.');
+  }
+
+  const config = await readAgpConfig(agpPath);
+  const previous = config.template;
+  const variables = previous?.variables;
+
+  // Stay on the pinned template and ref unless told otherwise
+  const templateUrl = options.templateUrl || (previous ? formatTemplateSource(previous) : DEFAULT_TEMPLATE_URL);
+  const template = await fetchTemplate(formatTemplateSource(parseTemplateSource(templateUrl, options.templateRef)), {
+    refresh: true,
+    sha256: options.templateSha256,
+  });
+  const basePath = previous ? await getPinnedTemplatePath(previous) : null;
+
+  const files: TemplateFileUpdate[] = [];
+  const candidates = new Set([...(await listFiles(template.path)), ...(basePath ? await listFiles(basePath) : [])]);
+  // Local config is never template-owned
+  candidates.delete('.config.json');
+
+  for (const relativePath of [...candidates].sort()) {
+    const localPath = path.join(agpPath, relativePath);
+    const [localVersion, baseVersion, templateVersion] = await Promise.all([
+      readIfExists(localPath),
+      basePath ? readIfExists(path.join(basePath, relativePath)) : null,
+      readIfExists(path.join(template.path, relativePath)),
+    ]);
+    // Like git, take a NUL byte to mean binary; latin1 keeps its bytes intact through compares and writes
+    const binary = [localVersion, baseVersion, templateVersion].some((version) => version?.includes(0));
+    const encoding: BufferEncoding = binary ? 'latin1' : 'utf8';
+    // Compare template files as they were rendered at init
+    const render = (version: Buffer | null) => {
+      const content = version?.toString(encoding) ?? null;
+      return content !== null && variables && !binary && isTemplateTextFile(relativePath)
+        ? renderPlaceholders(content, variables)
+        : content;
+    };
+    const ours = localVersion?.toString(encoding) ?? null;
+    const base = render(baseVersion);
+    const theirs = render(templateVersion);
+
+    // Nothing to do when the file already matches, or the template did not change it
+    if (ours === theirs || (basePath && base === theirs)) {
+      continue;
+    }
+
+    const record = (status: TemplateFileUpdate['status'], conflicts?: number) => {
+      files.push(conflicts ? { path: relativePath, status, conflicts } : { path: relativePath, status });
+    };
+    const write = async (content: string) => {
+      if (!options.dryRun) {
+        await fs.ensureDir(path.dirname(localPath));
+        await fs.writeFile(localPath, content, encoding);
+      }
+    };
+
+    if (ours !== null && hasGeneratedRegions(ours)) {
+      record('skipped');
+    } else if (theirs === null) {
+      // Dropped from the template: remove it only if nobody touched it
+      if (ours === base) {
+        if (!options.dryRun) await fs.remove(localPath);
+        record('removed');
+      } else {
+        record('kept');
+      }
+    } else if (ours === null) {
+      if (base === null) {
+        await write(theirs);
+        record('added');
+      } else {
+        record('skipped');
+      }
+    } else if (base === null) {
+      record('kept');
+    } else if (ours === base) {
+      await write(theirs);
+      record('updated');
+    } else if (binary) {
+      record('kept');
+    } else {
+      const merged = await mergeFileContents(ours, base, theirs, [
+        'local',
+        `template ${describePin(previous)}`,
+        `template ${describePin(template.pin)}`,
+      ]);
+      await write(merged.content);
+      record(merged.conflicts > 0 ? 'conflict' : 'merged', merged.conflicts);
+    }
+  }
+
+  const current: TemplatePin = variables ? { ...template.pin, variables } : template.pin;
+  if (!options.dryRun) {
+    config.template = current;
+    await writeAgpConfig(agpPath, config);
+  }
+
+  const result: TemplateUpdateResult = { current, files };
+  if (previous) {
+    result.previous = previous;
+  }
+  return result;
+}
+
+export interface TemplateIssue {
+  severity: 'error' | 'warning';
+  /**
+   * File the issue is in, relative to the template or the initialized .agp, with `:line`
+   * when known
+   */
+  file?: string;
+  message: string;
+}
+
+/**
+ * Write a minimal template that passes `agp template validate`, as a starting point for
+ * a custom template
+ */
+export async function scaffoldTemplate(options: AgpTemplateInitOptions): Promise<string[]> {
+  const targetPath = path.resolve(options.directory);
+
+  if (await fs.pathExists(targetPath)) {
+    const existing = (await fs.readdir(targetPath)).filter((item) => item !== '.git');
+    if (existing.length > 0 && !options.force) {
+      throw new Error(`${targetPath} is not empty. Use --force to write the template files into it anyway.`);
+    }
+  }
+
+  const name = options.name || path.basename(targetPath);
+  const manifest: TemplateManifest = {
+    name,
+    description: `AGP template for ${name} projects`,
+    requiredFiles: DEFAULT_TEMPLATE_MANIFEST.requiredFiles,
+    requiredDirs: DEFAULT_TEMPLATE_MANIFEST.requiredDirs,
+    prompts: [{ name: 'team', message: 'Which team owns this project?', default: 'core' }],
+  };
+
+  const files: Record<string, string> = {
+    [TEMPLATE_MANIFEST_FILE]: `${JSON.stringify(manifest, null, 2)}\n`,
+    'instructions.md': [
+      '# {{projectName}} AI Instructions',
+      '',
+      'This project is owned by the {{team}} team. Read these documents before changing code:',
+      '',
+      '- [Architecture overview](architecture/overview.md)',
+      '- [Project overview](architecture/project-overview.md) (generated by `agp analyze`)',
+      '- [Feature domains](architecture/feature-domains.md) (generated by `agp analyze`)',
+      '- [Patterns](patterns/overview.md)',
+      '',
+      'Record decisions and progress in your session file under `sessions/`.',
+      '',
+    ].join('\n'),
+    'architecture/overview.md': [
+      '# Architecture Overview',
+      '',
+      'Describe the main components of {{projectName}} and how they interact.',
+      '',
+    ].join('\n'),
+    'patterns/overview.md': [
+      '# Patterns',
+      '',
+      'Document the coding conventions the {{team}} team expects in this {{projectType}} project.',
+      '',
+    ].join('\n'),
+    'README.md': [
+      `# ${name}`,
+      '',
+      'An [AGP](https://github.com/bang9/agp-cli) template. Use it with:',
+      '',
+      '```bash',
+      'agp init --template <url or path of this repository>',
+      '```',
+      '',
+      'Run `agp template validate` after changing it. This README is not copied into projects.',
+      '',
+    ].join('\n'),
+  };
+
+  for (const [file, content] of Object.entries(files)) {
+    await fs.outputFile(path.join(targetPath, file), content);
+  }
+  return Object.keys(files);
+}
+
+/**
+ * Check that a local template survives `agp init`: run the same download, placeholder,
+ * analysis and validation steps against a throwaway project and report what breaks
+ */
+export async function validateTemplate(options: AgpTemplateValidateOptions): Promise<TemplateIssue[]> {
+  const templatePath = path.resolve(options.directory);
+  const stat = await fs.stat(templatePath).catch(() => null);
+  if (!stat?.isDirectory()) {
+    throw new Error(`Template directory not found: ${templatePath}`);
+  }
+
+  const issues: TemplateIssue[] = [];
+  let manifest: TemplateManifest;
+  try {
+    manifest = await readTemplateManifest(templatePath);
+  } catch (error) {
+    return [
+      {
+        severity: 'error',
+        file: TEMPLATE_MANIFEST_FILE,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+    ];
+  }
+  if (!(await fs.pathExists(path.join(templatePath, TEMPLATE_MANIFEST_FILE)))) {
+    issues.push({
+      severity: 'warning',
+      file: TEMPLATE_MANIFEST_FILE,
+      message: 'No manifest, so the default template layout is required',
+    });
+  }
+
+  const sandboxPath = await fs.mkdtemp(path.join(os.tmpdir(), 'agp-template-check-'));
+  try {
+    // A small project to initialize into
+    const projectPath = path.join(sandboxPath, 'project');
+    await fs.outputJson(path.join(projectPath, 'package.json'), { name: 'agp-template-check', version: '0.0.0' });
+    await fs.outputFile(path.join(projectPath, 'src', 'index.ts'), 'export const ready = true;\n');
+
+    const stagedPath = path.join(sandboxPath, 'template');
+    await fs.ensureDir(stagedPath);
+    await downloadTemplate(templatePath, stagedPath);
+
+    // Prompts take their default, or a stand-in value, unless given with --var
+    const projectInfo = await detectProjectType(projectPath);
+    const variables = getProjectVariables(projectPath, projectInfo);
+    for (const prompt of manifest.prompts) {
+      variables[prompt.name] = prompt.default ?? `<${prompt.name}>`;
+    }
+    Object.assign(variables, options.variables);
+
+    for (const file of await listFiles(stagedPath)) {
+      if (!isTemplateTextFile(file)) continue;
+
+      const content = await fs.readFile(path.join(stagedPath, file), 'utf8');
+      for (const problem of findPlaceholderProblems(content, Object.keys(variables))) {
+        issues.push(
+          problem.kind === 'malformed'
+            ? { severity: 'error', file: `${file}:${problem.line}`, message: `Malformed placeholder "${problem.text}"` }
+            : {
+                severity: 'warning',
+                file: `${file}:${problem.line}`,
+                message: `${problem.text} is not a prompt or project variable and will be left as-is`,
+              },
+        );
+      }
+    }
+
+    await setupAgpStructure(projectPath, stagedPath, projectInfo, variables);
+    const agpPath = path.join(projectPath, '.agp');
+
+    const required = await getRequiredEntries(agpPath);
+    // .config.json is written at the very end of init, once the submodule remote is set up
+    for (const file of required.files.filter((file) => file !== '.config.json')) {
+      if (!(await fs.pathExists(path.join(agpPath, file)))) {
+        issues.push({ severity: 'error', file, message: 'Required file is missing after init' });
+      }
+    }
+    for (const dir of required.dirs) {
+      if (!(await fs.pathExists(path.join(agpPath, dir)))) {
+        issues.push({ severity: 'error', file: `${dir}/`, message: 'Required directory is missing after init' });
+      }
+    }
+
+    for (const file of await listFiles(agpPath)) {
+      if (!file.endsWith('.md')) continue;
+
+      const content = await fs.readFile(path.join(agpPath, file), 'utf8');
+      for (const link of await findBrokenLinks(agpPath, file, content)) {
+        issues.push({ severity: 'error', file, message: `Broken link to ${link}` });
+      }
+    }
+  } finally {
+    await fs.remove(sandboxPath);
+  }
+
+  return issues;
+}
+
+/**
+ * Relative markdown links whose target does not exist; links starting with `/` are
+ * resolved from the .agp root
+ */
+async function findBrokenLinks(agpPath: string, file: string, content: string): Promise<string[]> {
+  const broken: string[] = [];
+  const prose = content.replace(/```[\s\S]*?```/g, '').replace(/`[^`\n]*`/g, '');
+
+  for (const match of prose.matchAll(/\[[^\]]*\]\(<?([^)\s>]+)>?(?:\s+"[^"]*")?\)/g)) {
+    const link = match[1]!;
+    if (/^[a-z][a-z0-9+.-]*:/i.test(link) || link.startsWith('#')) continue;
+
+    const target = decodeURI(link.split('#')[0]!.split('?')[0]!);
+    const resolved = target.startsWith('/')
+      ? path.join(agpPath, target)
+      : path.resolve(path.dirname(path.join(agpPath, file)), target);
+    if (!(await fs.pathExists(resolved))) {
+      broken.push(link);
+    }
+  }
+  return broken;
+}
+
+export function describePin(pin: TemplatePin | undefined): string {
+  if (!pin) {
+    return 'unknown';
+  }
+  const version = pin.commit ? pin.commit.slice(0, 7) : pin.snapshot;
+  return pin.ref ? `${pin.ref} (${version})` : version;
+}
+
+async function listFiles(dirPath: string): Promise<string[]> {
+  const files: string[] = [];
+
+  async function scanDirectory(currentPath: string): Promise<void> {
+    for (const item of await fs.readdir(currentPath)) {
+      const fullPath = path.join(currentPath, item);
+      const stat = await fs.stat(fullPath);
+
+      if (stat.isDirectory()) {
+        await scanDirectory(fullPath);
+      } else {
+        files.push(path.relative(dirPath, fullPath).split(path.sep).join('/'));
+      }
+    }
+  }
+
+  await scanDirectory(dirPath);
+  return files;
+}
+
+async function readIfExists(filePath: string): Promise<Buffer | null> {
+  return (await fs.pathExists(filePath)) ? await fs.readFile(filePath) : null;
+}
@@ -0,0 +1,130 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { buildDependencyGraph, parseJsonc } from './dependency-graph';
+
+describe('parseJsonc', () => {
+  it('ignores comments and trailing commas but keeps them inside strings', () => {
+    const config = parseJsonc(`{
+      // line comment
+      "compilerOptions": {
+        /* block comment */
+        "baseUrl": "./src", // trailing
+        "paths": { "@/*": ["./*"], },
+      },
+      "include": ["src/**/*", "http://example.com//x"],
+    }`);
+
+    expect(config).toEqual({
+      compilerOptions: { baseUrl: './src', paths: { '@/*': ['./*'] } },
+      include: ['src/**/*', 'http://example.com//x'],
+    });
+  });
+});
+
+describe('buildDependencyGraph', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'agp-graph-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  async function graphOf(files: Record<string, string>) {
+    for (const [relativePath, content] of Object.entries(files)) {
+      await fs.outputFile(path.join(projectPath, relativePath), content);
+    }
+    const graphFiles = Object.keys(files)
+      .filter((relativePath) => /\.[jt]sx?$/.test(relativePath))
+      .map((relativePath) => ({ relativePath, language: 'typescript' }));
+    return await buildDependencyGraph(projectPath, graphFiles);
+  }
+
+  it('resolves relative imports, ESM .js specifiers and index files', async () => {
+    const graph = await graphOf({
+      'src/a.ts': `import { b } from './b.js';\nimport c from './c';\nexport * from './lib';`,
+      'src/b.ts': `export const b = require('fs');`,
+      'src/c.tsx': '',
+      'src/lib/index.ts': `import type { X } from 'node:path';\nimport chalk from 'chalk/ansi';`,
+    });
+
+    expect(graph.get('src/a.ts')?.input).toEqual(['src/b.ts', 'src/c.tsx', 'src/lib/index.ts']);
+    expect(graph.get('src/b.ts')?.output).toEqual(['src/a.ts']);
+    expect(graph.get('src/b.ts')?.external).toEqual(['node:fs']);
+    expect(graph.get('src/lib/index.ts')?.external).toEqual(['chalk', 'node:path']);
+  });
+
+  it('resolves tsconfig paths and baseUrl, following relative extends', async () => {
+    const graph = await graphOf({
+      'tsconfig.base.json': `{ "compilerOptions": { "baseUrl": "src", "paths": { "@app/*": ["app/*"] } } }`,
+      'tsconfig.json': `{\n  // shared settings\n  "extends": "./tsconfig.base",\n  "compilerOptions": {},\n}`,
+      'src/index.ts': `import { run } from '@app/run';\nimport { log } from 'utils/log';\nimport React from 'react';`,
+      'src/app/run.ts': '',
+      'src/utils/log.ts': '',
+    });
+
+    expect(graph.get('src/index.ts')?.input).toEqual(['src/app/run.ts', 'src/utils/log.ts']);
+    expect(graph.get('src/index.ts')?.external).toEqual(['react']);
+  });
+
+  it('ignores tsconfig fields of the wrong type', async () => {
+    const graph = await graphOf({
+      'tsconfig.json': `{ "compilerOptions": { "baseUrl": 1, "paths": { "@/*": "src/*", "~/*": ["src/*"] } } }`,
+      'src/index.ts': `import a from '@/a';\nimport b from '~/b';`,
+      'src/a.ts': '',
+      'src/b.ts': '',
+    });
+
+    expect(graph.get('src/index.ts')?.input).toEqual(['src/b.ts']);
+    expect(graph.get('src/index.ts')?.external).toEqual(['@/a']);
+  });
+
+  it('does not read imports from comments', async () => {
+    const graph = await graphOf({
+      'src/index.ts': [
+        `// import a from './a';`,
+        `/* require('./b') */`,
+        `const url = 'http://example.com'; // import c from './c';`,
+        `import d from './d';`,
+      ].join('\n'),
+      'src/a.ts': '',
+      'src/b.ts': '',
+      'src/c.ts': '',
+      'src/d.ts': '',
+    });
+
+    expect(graph.get('src/index.ts')?.input).toEqual(['src/d.ts']);
+  });
+
+  it('keeps quotes and slashes inside regular expressions from hiding comments or imports', async () => {
+    const graph = await graphOf({
+      'src/index.ts': [
+        `const slashes = /\\/\\//; import a from './a';`,
+        `const quote = /'/; // import c from './c';`,
+        `const cls = text.replace(/[/"]/, '');`,
+        `const ratio = width / height / 2;`,
+        `export { b } from './b';`,
+      ].join('\n'),
+      'src/a.ts': '',
+      'src/b.ts': '',
+      'src/c.ts': '',
+    });
+
+    expect(graph.get('src/index.ts')?.input).toEqual(['src/a.ts', 'src/b.ts']);
+  });
+
+  it('scans large bundles in linear time', async () => {
+    // About 1 MB with a division or a regular expression on every line; within the default test timeout
+    const line = 'const ratio = width / height; const ok = /^[a-z]+$/.test(name); return value / 2;\n';
+    const graph = await graphOf({
+      'dist/bundle.js': `${line.repeat(12_000)}import a from '../src/a';\n`,
+      'src/a.ts': '',
+    });
+
+    expect(graph.get('dist/bundle.js')?.input).toEqual(['src/a.ts']);
+  });
+});
@@ -0,0 +1,729 @@
+import * as fs from 'fs-extra';
+import { builtinModules } from 'module';
+import * as path from 'path';
+import { isRecord, isStringArray } from './json';
+
+export interface GraphFile {
+  relativePath: string;
+  language: string;
+}
+
+export interface FileDependencies {
+  /**
+   * Project files this file imports
+   */
+  input: string[];
+  /**
+   * Project files that import this file
+   */
+  output: string[];
+  /**
+   * Packages and standard library modules this file imports
+   */
+  external: string[];
+}
+
+export type DependencyGraph = Map<string, FileDependencies>;
+
+interface ExtractedDependencies {
+  internal: string[];
+  external: string[];
+}
+
+interface ResolverContext {
+  projectPath: string;
+  /**
+   * Every scanned file, relative with forward slashes
+   */
+  files: Set<string>;
+  cache: Map<string, unknown>;
+}
+
+type DependencyExtractor = (
+  file: GraphFile,
+  source: string,
+  context: ResolverContext,
+) => Promise<ExtractedDependencies>;
+
+const extractors: Record<string, DependencyExtractor> = {
+  typescript: extractJsDependencies,
+  javascript: extractJsDependencies,
+  vue: extractJsDependencies,
+  svelte: extractJsDependencies,
+  python: extractPythonDependencies,
+  go: extractGoDependencies,
+  rust: extractRustDependencies,
+};
+
+export async function buildDependencyGraph(projectPath: string, files: GraphFile[]): Promise<DependencyGraph> {
+  const graph: DependencyGraph = new Map();
+  const context: ResolverContext = {
+    projectPath,
+    files: new Set(files.map((file) => file.relativePath)),
+    cache: new Map(),
+  };
+
+  for (const file of files) {
+    graph.set(file.relativePath, { input: [], output: [], external: [] });
+  }
+
+  for (const file of files) {
+    const extractor = extractors[file.language];
+    if (!extractor) continue;
+
+    let source: string;
+    try {
+      source = await fs.readFile(path.join(projectPath, file.relativePath), 'utf8');
+    } catch {
+      continue;
+    }
+
+    const { internal, external } = await extractor(file, source, context);
+    const entry = graph.get(file.relativePath)!;
+    entry.input = unique(internal.filter((target) => target !== file.relativePath));
+    entry.external = unique(external);
+  }
+
+  // Output edges are the reverse of input edges
+  for (const [filePath, entry] of graph) {
+    for (const target of entry.input) {
+      graph.get(target)?.output.push(filePath);
+    }
+  }
+  for (const entry of graph.values()) {
+    entry.output.sort();
+  }
+
+  return graph;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)].sort();
+}
+
+// JavaScript / TypeScript
+
+const JS_IMPORT_PATTERNS = [
+  // import x from 'a'; import { x } from 'a'; import * as x from 'a'; import 'a'
+  /\bimport\s+(?:[\w*{}\s,$]+?\s+from\s+)?['"]([^'"\n]+)['"]/g,
+  // export * from 'a'; export { x } from 'a'
+  /\bexport\s+(?:type\s+)?(?:\*(?:\s+as\s+[\w$]+)?|\{[^}]*\})\s+from\s+['"]([^'"\n]+)['"]/g,
+  // require('a'); import('a')
+  /\b(?:require|import)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g,
+];
+
+const JS_RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte', '.json'];
+
+async function extractJsDependencies(
+  file: GraphFile,
+  source: string,
+  context: ResolverContext,
+): Promise<ExtractedDependencies> {
+  const code = stripJsComments(source);
+  const specifiers = new Set<string>();
+
+  for (const pattern of JS_IMPORT_PATTERNS) {
+    for (const match of code.matchAll(pattern)) {
+      if (match[1]) specifiers.add(match[1]);
+    }
+  }
+
+  const result: ExtractedDependencies = { internal: [], external: [] };
+  const fileDir = path.posix.dirname(file.relativePath);
+
+  for (const specifier of specifiers) {
+    if (specifier.startsWith('.')) {
+      const resolved = resolveJsFile(path.posix.join(fileDir, specifier), context);
+      if (resolved) result.internal.push(resolved);
+      continue;
+    }
+
+    const aliased = await resolveTsconfigPath(specifier, fileDir, context);
+    if (aliased) {
+      result.internal.push(aliased);
+      continue;
+    }
+
+    result.external.push(getPackageName(specifier));
+  }
+
+  return result;
+}
+
+function resolveJsFile(basePath: string, context: ResolverContext): string | null {
+  const normalized = path.posix.normalize(basePath);
+  const candidates = [normalized];
+
+  // ESM-style TypeScript imports reference the compiled extension: './foo.js' -> './foo.ts'
+  const jsExtension = normalized.match(/\.(m|c)?jsx?$/);
+  if (jsExtension) {
+    const stem = normalized.slice(0, -jsExtension[0].length);
+    candidates.push(`${stem}.ts`, `${stem}.tsx`, `${stem}.${jsExtension[1] || ''}ts`);
+  }
+
+  candidates.push(...JS_RESOLVE_EXTENSIONS.map((ext) => `${normalized}${ext}`));
+  candidates.push(...JS_RESOLVE_EXTENSIONS.map((ext) => `${normalized}/index${ext}`));
+
+  return candidates.find((candidate) => context.files.has(candidate)) || null;
+}
+
+function getPackageName(specifier: string): string {
+  if (specifier.startsWith('node:')) {
+    return specifier;
+  }
+
+  const segments = specifier.split('/');
+  const packageName = specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0] || specifier;
+
+  return builtinModules.includes(packageName) ? `node:${packageName}` : packageName;
+}
+
+interface TsconfigPaths {
+  /**
+   * Directory `paths` targets are relative to (project-relative, forward slashes)
+   */
+  baseDir: string;
+  hasBaseUrl: boolean;
+  paths: Record<string, string[]>;
+}
+
+async function resolveTsconfigPath(
+  specifier: string,
+  fileDir: string,
+  context: ResolverContext,
+): Promise<string | null> {
+  const config = await findTsconfigPaths(fileDir, context);
+  if (!config) return null;
+
+  for (const [pattern, targets] of Object.entries(config.paths)) {
+    const wildcard = pattern.indexOf('*');
+    let captured: string | null = null;
+
+    if (wildcard === -1) {
+      captured = pattern === specifier ? '' : null;
+    } else {
+      const prefix = pattern.slice(0, wildcard);
+      const suffix = pattern.slice(wildcard + 1);
+      if (specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= pattern.length - 1) {
+        captured = specifier.slice(prefix.length, specifier.length - suffix.length);
+      }
+    }
+
+    if (captured === null) continue;
+
+    for (const target of targets) {
+      const resolved = resolveJsFile(path.posix.join(config.baseDir, target.replace('*', captured)), context);
+      if (resolved) return resolved;
+    }
+  }
+
+  if (config.hasBaseUrl) {
+    return resolveJsFile(path.posix.join(config.baseDir, specifier), context);
+  }
+
+  return null;
+}
+
+/**
+ * Find the nearest tsconfig.json / jsconfig.json above a directory and read its module resolution settings
+ */
+async function findTsconfigPaths(fileDir: string, context: ResolverContext): Promise<TsconfigPaths | null> {
+  const cacheKey = `tsconfig:${fileDir}`;
+  if (context.cache.has(cacheKey)) {
+    return context.cache.get(cacheKey) as TsconfigPaths | null;
+  }
+
+  let result: TsconfigPaths | null = null;
+  for (const name of ['tsconfig.json', 'jsconfig.json']) {
+    const configPath = path.join(context.projectPath, fileDir, name);
+    if (await fs.pathExists(configPath)) {
+      result = await readTsconfigPaths(configPath, context.projectPath);
+      break;
+    }
+  }
+
+  if (!result && fileDir !== '.' && fileDir !== '') {
+    result = await findTsconfigPaths(path.posix.dirname(fileDir), context);
+  }
+
+  context.cache.set(cacheKey, result);
+  return result;
+}
+
+async function readTsconfigPaths(configPath: string, projectPath: string, depth = 0): Promise<TsconfigPaths | null> {
+  let compilerOptions: { baseUrl?: string; paths?: Record<string, string[]> } = {};
+  let inherited: TsconfigPaths | null = null;
+
+  try {
+    const config = parseJsonc(await fs.readFile(configPath, 'utf8'));
+    if (!isRecord(config)) {
+      return null;
+    }
+
+    const options = isRecord(config.compilerOptions) ? config.compilerOptions : {};
+    if (typeof options.baseUrl === 'string') {
+      compilerOptions.baseUrl = options.baseUrl;
+    }
+    if (isRecord(options.paths)) {
+      compilerOptions.paths = Object.fromEntries(
+        Object.entries(options.paths).filter((entry): entry is [string, string[]] => isStringArray(entry[1])),
+      );
+    }
+
+    // Follow relative "extends" chains; package-based extends rarely declare paths
+    const extendsPath = typeof config.extends === 'string' ? config.extends : null;
+    if (extendsPath?.startsWith('.') && depth < 5) {
+      const parentPath = path.resolve(path.dirname(configPath), extendsPath);
+      const parentFile = parentPath.endsWith('.json') ? parentPath : `${parentPath}.json`;
+      if (await fs.pathExists(parentFile)) {
+        inherited = await readTsconfigPaths(parentFile, projectPath, depth + 1);
+      }
+    }
+  } catch {
+    return null;
+  }
+
+  const configDir = path.dirname(configPath);
+  const toProjectRelative = (absolutePath: string) =>
+    path.relative(projectPath, absolutePath).split(path.sep).join('/') || '.';
+
+  if (compilerOptions.baseUrl === undefined && compilerOptions.paths === undefined) {
+    return inherited;
+  }
+
+  let baseDir = toProjectRelative(configDir);
+  if (compilerOptions.baseUrl !== undefined) {
+    baseDir = toProjectRelative(path.resolve(configDir, compilerOptions.baseUrl));
+  } else if (inherited?.hasBaseUrl) {
+    baseDir = inherited.baseDir;
+  }
+
+  return {
+    baseDir,
+    hasBaseUrl: compilerOptions.baseUrl !== undefined || !!inherited?.hasBaseUrl,
+    paths: compilerOptions.paths || inherited?.paths || {},
+  };
+}
+
+// Python
+
+async function extractPythonDependencies(
+  file: GraphFile,
+  source: string,
+  context: ResolverContext,
+): Promise<ExtractedDependencies> {
+  const code = source.replace(/#.*$/gm, '');
+  const result: ExtractedDependencies = { internal: [], external: [] };
+  const packageDir = path.posix.dirname(file.relativePath);
+
+  // import a.b, c as d
+  for (const match of code.matchAll(
+    /^[ \t]*import[ \t]+([\w.]+(?:[ \t]+as[ \t]+\w+)?(?:[ \t]*,[ \t]*[\w.]+(?:[ \t]+as[ \t]+\w+)?)*)/gm,
+  )) {
+    for (const part of (match[1] || '').split(',')) {
+      const moduleName = part.trim().split(/\s+/)[0] || '';
+      addPythonModule(moduleName.split('.'), null, result, context);
+    }
+  }
+
+  // from a.b import c, d / from . import c / from ..a import (b, c)
+  for (const match of code.matchAll(/^[ \t]*from[ \t]+(\.*)([\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[^\n]+)/gm)) {
+    const dots = (match[1] || '').length;
+    const moduleSegments = (match[2] || '').split('.').filter(Boolean);
+    const names = (match[3] || '')
+      .replace(/[()]/g, '')
+      .split(',')
+      .map((name) => name.trim().split(/\s+/)[0] || '')
+      .filter((name) => name && name !== '*');
+
+    if (dots === 0) {
+      addPythonModule(moduleSegments, names, result, context);
+      continue;
+    }
+
+    // Each leading dot beyond the first climbs one package up
+    let baseDir = packageDir;
+    for (let i = 1; i < dots; i++) {
+      baseDir = path.posix.dirname(baseDir);
+    }
+    const resolved = resolvePythonModule(baseDir, moduleSegments, names, context);
+    result.internal.push(...resolved);
+  }
+
+  return result;
+}
+
+function addPythonModule(
+  segments: string[],
+  names: string[] | null,
+  result: ExtractedDependencies,
+  context: ResolverContext,
+): void {
+  if (segments.length === 0) return;
+
+  for (const root of getPythonSourceRoots(context)) {
+    const resolved = resolvePythonModule(root, segments, names, context);
+    if (resolved.length > 0) {
+      result.internal.push(...resolved);
+      return;
+    }
+  }
+
+  result.external.push(segments[0]!);
+}
+
+/**
+ * Resolve `segments` under `baseDir` to module files. Imported names are tried as
+ * submodules first (`from pkg import mod`), falling back to the module itself.
+ */
+function resolvePythonModule(
+  baseDir: string,
+  segments: string[],
+  names: string[] | null,
+  context: ResolverContext,
+): string[] {
+  const modulePath = path.posix.join(baseDir, ...segments);
+  const findModule = (candidate: string) =>
+    [`${candidate}.py`, `${candidate}/__init__.py`]
+      .map((file) => path.posix.normalize(file))
+      .find((file) => context.files.has(file));
+
+  const submodules = (names || [])
+    .map((name) => findModule(path.posix.join(modulePath, name)))
+    .filter((file): file is string => !!file);
+  if (submodules.length > 0) {
+    return submodules;
+  }
+
+  // `import a.b.c` where c is an attribute: fall back to the longest module prefix
+  for (let length = segments.length; length >= 1; length--) {
+    const found = findModule(path.posix.join(baseDir, ...segments.slice(0, length)));
+    if (found) return [found];
+  }
+
+  return segments.length === 0 ? [findModule(baseDir)].filter((file): file is string => !!file) : [];
+}
+
+/**
+ * Directories top-level packages are imported from: the parent of every outermost
+ * package (a directory with __init__.py), plus the project root and src/.
+ */
+function getPythonSourceRoots(context: ResolverContext): string[] {
+  const cached = context.cache.get('python:roots') as string[] | undefined;
+  if (cached) return cached;
+
+  const roots = new Set<string>(['.', 'src']);
+  for (const file of context.files) {
+    if (!file.endsWith('/__init__.py')) continue;
+
+    let packageDir = path.posix.dirname(file);
+    while (context.files.has(path.posix.join(path.posix.dirname(packageDir), '__init__.py'))) {
+      packageDir = path.posix.dirname(packageDir);
+    }
+    roots.add(path.posix.dirname(packageDir));
+  }
+
+  const result = [...roots];
+  context.cache.set('python:roots', result);
+  return result;
+}
+
+// Go
+
+async function extractGoDependencies(
+  file: GraphFile,
+  source: string,
+  context: ResolverContext,
+): Promise<ExtractedDependencies> {
+  const code = source.replace(/\/\/.*$/gm, '');
+  const importPaths: string[] = [];
+
+  for (const match of code.matchAll(/^\s*import\s*\(([\s\S]*?)\)/gm)) {
+    for (const line of (match[1] || '').matchAll(/"([^"]+)"/g)) {
+      if (line[1]) importPaths.push(line[1]);
+    }
+  }
+  for (const match of code.matchAll(/^\s*import\s+(?:[\w.]+\s+)?"([^"]+)"/gm)) {
+    if (match[1]) importPaths.push(match[1]);
+  }
+
+  const result: ExtractedDependencies = { internal: [], external: [] };
+  const goModule = await findGoModule(path.posix.dirname(file.relativePath), context);
+
+  for (const importPath of importPaths) {
+    if (goModule && (importPath === goModule.path || importPath.startsWith(`${goModule.path}/`))) {
+      // A Go import names a package directory; depend on its non-test files
+      const packageDir = path.posix.join(goModule.dir, importPath.slice(goModule.path.length));
+      const packageFiles = [...context.files].filter(
+        (candidate) =>
+          path.posix.dirname(candidate) === path.posix.normalize(packageDir) &&
+          candidate.endsWith('.go') &&
+          !candidate.endsWith('_test.go'),
+      );
+      result.internal.push(...packageFiles);
+    } else {
+      result.external.push(importPath);
+    }
+  }
+
+  return result;
+}
+
+async function findGoModule(fileDir: string, context: ResolverContext): Promise<{ dir: string; path: string } | null> {
+  const moduleDir = await findNearestDir(fileDir, 'go.mod', context);
+  if (moduleDir === null) return null;
+
+  const cacheKey = `go.mod:${moduleDir}`;
+  if (!context.cache.has(cacheKey)) {
+    const goMod = await fs.readFile(path.join(context.projectPath, moduleDir, 'go.mod'), 'utf8');
+    const modulePath = goMod.match(/^module\s+(\S+)/m)?.[1];
+    context.cache.set(cacheKey, modulePath ? { dir: moduleDir, path: modulePath } : null);
+  }
+
+  return context.cache.get(cacheKey) as { dir: string; path: string } | null;
+}
+
+// Rust
+
+async function extractRustDependencies(
+  file: GraphFile,
+  source: string,
+  context: ResolverContext,
+): Promise<ExtractedDependencies> {
+  const code = source.replace(/\/\/.*$/gm, '');
+  const result: ExtractedDependencies = { internal: [], external: [] };
+
+  const crateDir = await findNearestDir(path.posix.dirname(file.relativePath), 'Cargo.toml', context);
+  const srcRoot = path.posix.join(crateDir ?? '.', 'src');
+  const modulePath = getRustModulePath(srcRoot, file.relativePath);
+  if (!modulePath) {
+    // Not part of the crate's module tree (e.g. build.rs); only external crates apply
+    for (const match of code.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?use\s+(?:::)?(\w+)/gm)) {
+      if (match[1] && !['crate', 'self', 'super'].includes(match[1])) result.external.push(match[1]);
+    }
+    return result;
+  }
+
+  // mod foo; declares a child module file
+  for (const match of code.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)\s*;/gm)) {
+    const resolved = resolveRustModule(srcRoot, [...modulePath, match[1]!], context, true);
+    if (resolved) result.internal.push(resolved);
+  }
+
+  for (const match of code.matchAll(/^\s*extern\s+crate\s+(\w+)/gm)) {
+    if (match[1]) result.external.push(match[1]);
+  }
+
+  // use crate::a::b; use super::{c, d}; use serde::Deserialize;
+  for (const match of code.matchAll(
+    /^\s*(?:pub(?:\([^)]*\))?\s+)?use\s+(?:::)?([\w:]+?)(?:::\{([^}]*)\}|::\*)?\s*(?:as\s+\w+\s*)?;/gm,
+  )) {
+    const segments = (match[1] || '').split('::').filter(Boolean);
+    const groupedNames = match[2]
+      ? match[2]
+          .split(',')
+          .map((name) => name.trim().split(/\s|::/)[0] || '')
+          .filter((name) => name && name !== 'self')
+      : [];
+
+    const first = segments[0];
+    if (!first) continue;
+
+    let absolute: string[];
+    if (first === 'crate') {
+      absolute = segments.slice(1);
+    } else if (first === 'self') {
+      absolute = [...modulePath, ...segments.slice(1)];
+    } else if (first === 'super') {
+      let parent = [...modulePath];
+      let index = 0;
+      while (segments[index] === 'super') {
+        parent = parent.slice(0, -1);
+        index++;
+      }
+      absolute = [...parent, ...segments.slice(index)];
+    } else {
+      result.external.push(first);
+      continue;
+    }
+
+    const targets = groupedNames.length > 0 ? groupedNames.map((name) => [...absolute, name]) : [absolute];
+    for (const target of targets) {
+      const resolved = resolveRustModule(srcRoot, target, context, false);
+      if (resolved) result.internal.push(resolved);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Module path of a file inside src/: lib.rs -> [], a/mod.rs -> ['a'], a/b.rs -> ['a', 'b']
+ */
+function getRustModulePath(srcRoot: string, relativePath: string): string[] | null {
+  const withinSrc = path.posix.relative(srcRoot, relativePath);
+  if (withinSrc.startsWith('..')) return null;
+
+  const segments = withinSrc.replace(/\.rs$/, '').split('/');
+  const last = segments[segments.length - 1];
+  if (segments.length === 1 && (last === 'lib' || last === 'main')) return [];
+  if (last === 'mod') return segments.slice(0, -1);
+  if (segments[0] === 'bin') return [];
+
+  return segments;
+}
+
+/**
+ * Map a module path to its file. Items inside a module (`use crate::a::Thing`) resolve to
+ * the longest module prefix that has a file unless `exact` is set.
+ */
+function resolveRustModule(
+  srcRoot: string,
+  segments: string[],
+  context: ResolverContext,
+  exact: boolean,
+): string | null {
+  const minLength = exact ? segments.length : 1;
+
+  for (let length = segments.length; length >= minLength; length--) {
+    const modulePath = path.posix.join(srcRoot, ...segments.slice(0, length));
+    const found = [`${modulePath}.rs`, `${modulePath}/mod.rs`].find((file) => context.files.has(file));
+    if (found) return found;
+  }
+
+  return null;
+}
+
+/**
+ * Walk up from a project-relative directory to the closest one containing `marker`
+ */
+async function findNearestDir(fileDir: string, marker: string, context: ResolverContext): Promise<string | null> {
+  const cacheKey = `nearest:${marker}:${fileDir}`;
+  if (context.cache.has(cacheKey)) {
+    return context.cache.get(cacheKey) as string | null;
+  }
+
+  let result: string | null = null;
+  if (await fs.pathExists(path.join(context.projectPath, fileDir, marker))) {
+    result = fileDir;
+  } else if (fileDir !== '.' && fileDir !== '') {
+    result = await findNearestDir(path.posix.dirname(fileDir), marker, context);
+  }
+
+  context.cache.set(cacheKey, result);
+  return result;
+}
+
+/**
+ * Parse JSON with comments and trailing commas (tsconfig.json style)
+ */
+export function parseJsonc(content: string): unknown {
+  return JSON.parse(stripJsComments(content).replace(/,(\s*[}\]])/g, '$1'));
+}
+
+/**
+ * Tokens after which a `/` starts a regular expression rather than a division
+ */
+const REGEX_PRECEDING_CHARS = new Set([...'(,=:[!&|?{};+-*%<>~^']);
+// prettier-ignore
+const REGEX_PRECEDING_KEYWORDS = new Set([
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await',
+]);
+
+/**
+ * Remove // and /* *\/ comments while leaving string, template and regular expression literal
+ * contents intact
+ */
+function stripJsComments(code: string): string {
+  let result = '';
+  let quote: string | null = null;
+  // The last token outside comments: an identifier, or a punctuation or quote character.
+  // Tracked as we go, since re-reading `result` at every `/` is quadratic on large files.
+  let previous = '';
+  let inWord = false;
+
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i]!;
+    const next = code[i + 1];
+
+    if (quote) {
+      result += char;
+      if (char === '\\') {
+        result += next ?? '';
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (char === '/' && next === '/') {
+      while (i < code.length && code[i] !== '\n') i++;
+      result += '\n';
+      inWord = false;
+      continue;
+    }
+
+    if (char === '/' && next === '*') {
+      const end = code.indexOf('*/', i + 2);
+      i = end === -1 ? code.length : end + 1;
+      result += ' ';
+      inWord = false;
+      continue;
+    }
+
+    if (char === '/' && startsRegex(previous)) {
+      const end = findRegexEnd(code, i);
+      if (end !== -1) {
+        result += code.slice(i, end + 1);
+        i = end;
+        previous = '/';
+        inWord = false;
+        continue;
+      }
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    }
+    result += char;
+
+    if (/[\w$]/.test(char)) {
+      previous = inWord ? previous + char : char;
+      inWord = true;
+    } else {
+      if (!/\s/.test(char)) previous = char;
+      inWord = false;
+    }
+  }
+
+  return result;
+}
+
+function startsRegex(previous: string): boolean {
+  return previous === '' || REGEX_PRECEDING_CHARS.has(previous) || REGEX_PRECEDING_KEYWORDS.has(previous);
+}
+
+/**
+ * Index of the `/` closing the regular expression that opens at `start`, or -1 when the line
+ * ends first (then it was a division after all)
+ */
+function findRegexEnd(code: string, start: number): number {
+  let inClass = false;
+
+  for (let i = start + 1; i < code.length; i++) {
+    const char = code[i];
+    if (char === '\n') return -1;
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === ']') {
+      inClass = false;
+    } else if (char === '/' && !inClass) {
+      return i;
+    }
+  }
+
+  return -1;
+}
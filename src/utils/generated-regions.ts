@@ -0,0 +1,64 @@
+import * as fs from 'fs-extra';
+
+/**
+ * Generated regions mark the parts of a knowledge file the analyzer owns. Re-running the
+ * analyzer replaces only the content between the markers; everything outside them (and any
+ * file without markers at all) belongs to humans and AI assistants and is never rewritten.
+ */
+export type GeneratedWriteResult = 'created' | 'updated' | 'unchanged' | 'skipped';
+
+const REGION_PATTERN = /<!-- agp:generated:start ([\w-]+) -->[\s\S]*?<!-- agp:generated:end \1 -->/g;
+
+export function generatedRegion(id: string, content: string): string {
+  return `<!-- agp:generated:start ${id} -->\n${content.trim()}\n<!-- agp:generated:end ${id} -->`;
+}
+
+export function hasGeneratedRegions(content: string): boolean {
+  return new RegExp(REGION_PATTERN.source).test(content);
+}
+
+/**
+ * Replace each region in `existing` with the region of the same id from `generated`.
+ * Regions the user removed are not re-added.
+ */
+export function mergeGeneratedRegions(existing: string, generated: string): string {
+  const regions = new Map<string, string>();
+  for (const match of generated.matchAll(REGION_PATTERN)) {
+    regions.set(match[1] || '', match[0]);
+  }
+
+  return existing.replace(REGION_PATTERN, (block: string, id: string) => regions.get(id) ?? block);
+}
+
+/**
+ * Write generated content, merging into an existing file's generated regions.
+ * Files without regions are left alone unless `force` is set.
+ */
+export async function writeGeneratedFile(
+  filePath: string,
+  content: string,
+  options: { force?: boolean } = {},
+): Promise<GeneratedWriteResult> {
+  if (!(await fs.pathExists(filePath))) {
+    await fs.writeFile(filePath, content);
+    return 'created';
+  }
+
+  const existing = await fs.readFile(filePath, 'utf8');
+  let updated: string;
+
+  if (hasGeneratedRegions(existing)) {
+    updated = mergeGeneratedRegions(existing, content);
+  } else if (options.force) {
+    updated = content;
+  } else {
+    return 'skipped';
+  }
+
+  if (updated === existing) {
+    return 'unchanged';
+  }
+
+  await fs.writeFile(filePath, updated);
+  return 'updated';
+}
@@ -0,0 +1,98 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Run a git command in the given directory and return its stdout without trailing whitespace
+ */
+export async function git(args: string[], cwd: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 });
+    return stdout.trimEnd();
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(stderr || (error instanceof Error ? error.message : 'Unknown git error'));
+  }
+}
+
+/**
+ * Run a git command, returning null instead of throwing when it fails
+ */
+export async function tryGit(args: string[], cwd: string): Promise<string | null> {
+  try {
+    return await git(args, cwd);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether `ancestor` is reachable from `descendant`
+ */
+export async function isAncestor(ancestor: string, descendant: string, cwd: string): Promise<boolean> {
+  return (await tryGit(['merge-base', '--is-ancestor', ancestor, descendant], cwd)) !== null;
+}
+
+/**
+ * List files left unmerged by a failed merge, rebase or stash pop
+ */
+export async function listConflictedFiles(cwd: string): Promise<string[]> {
+  const output = await tryGit(['diff', '--name-only', '--diff-filter=U'], cwd);
+  return output ? output.split('\n').filter(Boolean) : [];
+}
+
+/**
+ * Three-way merge file contents with `git merge-file`. Conflicting hunks are left in the
+ * result with conflict markers labelled by `labels` (ours, base, theirs).
+ */
+export async function mergeFileContents(
+  ours: string,
+  base: string,
+  theirs: string,
+  labels: [string, string, string],
+): Promise<{ content: string; conflicts: number }> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agp-merge-'));
+  const [oursPath, basePath, theirsPath] = ['ours', 'base', 'theirs'].map((name) => path.join(tempDir, name)) as [
+    string,
+    string,
+    string,
+  ];
+
+  try {
+    await fs.writeFile(oursPath, ours);
+    await fs.writeFile(basePath, base);
+    await fs.writeFile(theirsPath, theirs);
+
+    const args = [
+      'merge-file',
+      '-p',
+      '-L',
+      labels[0],
+      '-L',
+      labels[1],
+      '-L',
+      labels[2],
+      oursPath,
+      basePath,
+      theirsPath,
+    ];
+    try {
+      const { stdout } = await execFileAsync('git', args, { maxBuffer: 10 * 1024 * 1024 });
+      return { content: stdout, conflicts: 0 };
+    } catch (error) {
+      // Exit codes 1-254 count the conflicts, and the merged output is still printed; 255
+      // means git could not merge at all (e.g. binary input)
+      const { code, stdout, stderr } = error as { code?: number; stdout?: string; stderr?: string };
+      if (typeof code === 'number' && code > 0 && code < 255 && stdout !== undefined) {
+        return { content: stdout, conflicts: code };
+      }
+      throw new Error(stderr?.trim() || (error instanceof Error ? error.message : 'git merge-file failed'));
+    }
+  } finally {
+    await fs.remove(tempDir);
+  }
+}
@@ -0,0 +1,135 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { tryGit } from './git';
+
+/**
+ * Metadata recorded in the frontmatter of every generated knowledge file, linking it
+ * to the exact version of the source file it describes.
+ */
+export interface KnowledgeMetadata {
+  source: string;
+  sourceHash: string;
+  analyzedCommit?: string;
+  analyzedAt: string;
+}
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+export function getKnowledgePath(agpPath: string, sourceRelativePath: string): string {
+  return path.join(agpPath, 'project', `${sourceRelativePath}.md`);
+}
+
+/**
+ * Map .agp/project/<source>.md back to the project-relative source path
+ */
+export function getSourcePathForKnowledge(agpPath: string, knowledgePath: string): string {
+  const relativePath = path.relative(path.join(agpPath, 'project'), knowledgePath).split(path.sep).join('/');
+  return relativePath.replace(/\.md$/, '');
+}
+
+export async function findKnowledgeFiles(agpPath: string): Promise<string[]> {
+  const files: string[] = [];
+
+  async function scanDirectory(dirPath: string): Promise<void> {
+    if (!(await fs.pathExists(dirPath))) return;
+
+    for (const item of await fs.readdir(dirPath)) {
+      const fullPath = path.join(dirPath, item);
+      const stat = await fs.stat(fullPath);
+
+      if (stat.isDirectory()) {
+        await scanDirectory(fullPath);
+      } else if (item.endsWith('.md')) {
+        files.push(fullPath);
+      }
+    }
+  }
+
+  await scanDirectory(path.join(agpPath, 'project'));
+  return files.sort();
+}
+
+export function parseFrontmatter(content: string): { data: Record<string, string>; body: string } {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return { data: {}, body: content };
+  }
+
+  const data: Record<string, string> = {};
+  for (const line of (match[1] || '').split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      data[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  return { data, body: content.slice(match[0].length) };
+}
+
+export function readKnowledgeMetadata(content: string): KnowledgeMetadata | null {
+  const { data } = parseFrontmatter(content);
+  if (!data['source'] || !data['sourceHash']) {
+    return null;
+  }
+
+  const metadata: KnowledgeMetadata = {
+    source: data['source'],
+    sourceHash: data['sourceHash'],
+    analyzedAt: data['analyzedAt'] || '',
+  };
+  if (data['analyzedCommit']) {
+    metadata.analyzedCommit = data['analyzedCommit'];
+  }
+  return metadata;
+}
+
+/**
+ * Replace the metadata frontmatter of a knowledge file, keeping any other frontmatter keys
+ */
+export function withKnowledgeMetadata(content: string, metadata: KnowledgeMetadata): string {
+  const { data, body } = parseFrontmatter(content);
+  const merged: Record<string, string> = { ...data };
+
+  delete merged['analyzedCommit'];
+  merged['source'] = metadata.source;
+  merged['sourceHash'] = metadata.sourceHash;
+  if (metadata.analyzedCommit) {
+    merged['analyzedCommit'] = metadata.analyzedCommit;
+  }
+  merged['analyzedAt'] = metadata.analyzedAt;
+
+  const frontmatter = Object.entries(merged)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join('\n');
+
+  return `---\n${frontmatter}\n---\n\n${body.replace(/^\s*\n/, '')}`;
+}
+
+/**
+ * Hash source content with normalized line endings so CRLF checkouts don't look stale
+ */
+export async function hashSourceFile(filePath: string): Promise<string> {
+  const content = await fs.readFile(filePath, 'utf8');
+  return `sha256:${createHash('sha256').update(content.replace(/\r\n/g, '\n')).digest('hex')}`;
+}
+
+export async function getHeadCommit(projectPath: string): Promise<string | undefined> {
+  return (await tryGit(['rev-parse', 'HEAD'], projectPath)) || undefined;
+}
+
+export async function createKnowledgeMetadata(
+  projectPath: string,
+  sourceRelativePath: string,
+  analyzedCommit?: string,
+): Promise<KnowledgeMetadata> {
+  const metadata: KnowledgeMetadata = {
+    source: sourceRelativePath.split(path.sep).join('/'),
+    sourceHash: await hashSourceFile(path.join(projectPath, sourceRelativePath)),
+    analyzedAt: new Date().toISOString(),
+  };
+  if (analyzedCommit) {
+    metadata.analyzedCommit = analyzedCommit;
+  }
+  return metadata;
+}
@@ -0,0 +1,291 @@
+import * as readline from 'readline';
+import { Readable, Writable } from 'stream';
+import { isRecord, isStringArray } from './json';
+
+/**
+ * Protocol versions this server speaks, newest first. A client asking for another
+ * version is answered with the newest, as the MCP version negotiation requires.
+ */
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/**
+ * The subset of JSON Schema tool inputs are described with
+ */
+export interface JsonSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: 'object' };
+  /**
+   * Called with arguments already checked against `inputSchema`; read them with the
+   * argument helpers below. Strings are returned as text as-is; anything else as JSON.
+   * A thrown error becomes a tool result with `isError`, so the model sees the message
+   * and can correct its call.
+   */
+  call(args: Record<string, unknown>): Promise<unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+/**
+ * A Model Context Protocol server offering tools only: JSON-RPC 2.0 messages, one per
+ * line, over stdio. `handleMessage` is transport-free, so a client in the same process
+ * can drive the server directly.
+ */
+export class McpServer {
+  private tools = new Map<string, McpTool>();
+
+  constructor(private info: { name: string; version: string; instructions?: string }) {}
+
+  registerTool(tool: McpTool): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Answer one JSON-RPC message; notifications get no answer, so they return null
+   */
+  async handleMessage(message: unknown): Promise<JsonRpcResponse | null> {
+    if (!isRequest(message)) {
+      return errorResponse(null, INVALID_REQUEST, 'Invalid request');
+    }
+
+    const id = message.id ?? null;
+    const isNotification = message.id === undefined;
+    const params = message.params ?? {};
+    if (!isRecord(params)) {
+      return isNotification ? null : errorResponse(id, INVALID_PARAMS, 'Params must be an object');
+    }
+
+    try {
+      const result = await this.dispatch(message.method, params);
+      return isNotification ? null : { jsonrpc: '2.0', id, result };
+    } catch (error) {
+      if (isNotification) {
+        return null;
+      }
+      if (error instanceof McpProtocolError) {
+        return errorResponse(id, error.code, error.message);
+      }
+      return errorResponse(id, INTERNAL_ERROR, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  /**
+   * Serve newline-delimited messages until the input closes. Messages are handled one
+   * at a time, so tools never race each other on the same files.
+   */
+  async listen(input: Readable = process.stdin, output: Writable = process.stdout): Promise<void> {
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      let message: unknown;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        output.write(`${JSON.stringify(errorResponse(null, PARSE_ERROR, 'Parse error'))}\n`);
+        continue;
+      }
+
+      const response = await this.handleMessage(message);
+      if (response) {
+        output.write(`${JSON.stringify(response)}\n`);
+      }
+    }
+  }
+
+  private async dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+    switch (method) {
+      case 'initialize': {
+        const requested = params['protocolVersion'];
+        return {
+          protocolVersion:
+            typeof requested === 'string' && MCP_PROTOCOL_VERSIONS.includes(requested)
+              ? requested
+              : MCP_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: { name: this.info.name, version: this.info.version },
+          ...(this.info.instructions ? { instructions: this.info.instructions } : {}),
+        };
+      }
+      case 'notifications/initialized':
+      case 'notifications/cancelled':
+        return {};
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return {
+          tools: [...this.tools.values()].map(({ name, description, inputSchema }) => ({
+            name,
+            description,
+            inputSchema,
+          })),
+        };
+      case 'tools/call':
+        return await this.callTool(params['name'], params['arguments'] ?? {});
+      default:
+        throw new McpProtocolError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  private async callTool(name: unknown, args: unknown): Promise<unknown> {
+    const tool = typeof name === 'string' ? this.tools.get(name) : undefined;
+    if (!tool) {
+      throw new McpProtocolError(INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+    }
+
+    try {
+      const problem = validateArguments(tool.inputSchema, args);
+      if (problem || !isRecord(args)) {
+        throw new Error(problem || 'arguments must be an object');
+      }
+
+      const result = await tool.call(args);
+      const text = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+      return { content: [{ type: 'text', text }] };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: error instanceof Error ? error.message : 'Unknown error' }],
+        isError: true,
+      };
+    }
+  }
+}
+
+class McpProtocolError extends Error {
+  constructor(
+    public code: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function isRequest(message: unknown): message is { id?: string | number | null; method: string; params?: unknown } {
+  if (!isRecord(message) || message['jsonrpc'] !== '2.0' || typeof message['method'] !== 'string') {
+    return false;
+  }
+  const id = message['id'];
+  return id === undefined || id === null || typeof id === 'string' || typeof id === 'number';
+}
+
+function errorResponse(id: string | number | null, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+/**
+ * Check arguments against the tool's schema: required properties, types and enums.
+ * Returns a message for the first problem found.
+ */
+function validateArguments(schema: JsonSchema, args: unknown, prefix = ''): string | null {
+  if (!isRecord(args)) {
+    return `${prefix || 'arguments'} must be an object`;
+  }
+
+  for (const name of schema.required || []) {
+    if (args[name] === undefined) {
+      return `Missing required argument "${prefix}${name}"`;
+    }
+  }
+
+  for (const [name, value] of Object.entries(args)) {
+    const property = schema.properties?.[name];
+    if (!property || value === undefined) continue;
+
+    const problem = validateValue(property, value, `${prefix}${name}`);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+function validateValue(schema: JsonSchema, value: unknown, name: string): string | null {
+  const matchesType =
+    schema.type === 'array'
+      ? Array.isArray(value)
+      : schema.type === 'integer'
+        ? Number.isInteger(value)
+        : schema.type === 'object'
+          ? isRecord(value)
+          : typeof value === schema.type;
+  if (!matchesType) {
+    return `Argument "${name}" must be ${/^[aeiou]/.test(schema.type) ? 'an' : 'a'} ${schema.type}`;
+  }
+
+  if (schema.enum && (typeof value !== 'string' || !schema.enum.includes(value))) {
+    return `Argument "${name}" must be one of ${schema.enum.join(', ')}`;
+  }
+  if (Array.isArray(value) && schema.items) {
+    for (const [index, item] of value.entries()) {
+      const problem = validateValue(schema.items, item, `${name}[${index}]`);
+      if (problem) return problem;
+    }
+  }
+  if (schema.type === 'object' && schema.properties) {
+    return validateArguments(schema, value, `${name}.`);
+  }
+  return null;
+}
+
+/**
+ * Argument helpers for tool handlers. The schema was checked before the call, so these
+ * only narrow the types; a mismatch means the schema and handler disagree.
+ */
+export function optionalString(args: Record<string, unknown>, name: string): string | undefined {
+  return readArgument(args, name, (value): value is string => typeof value === 'string', 'a string');
+}
+
+export function requiredString(args: Record<string, unknown>, name: string): string {
+  const value = optionalString(args, name);
+  if (value === undefined) {
+    throw new Error(`Missing required argument "${name}"`);
+  }
+  return value;
+}
+
+export function optionalBoolean(args: Record<string, unknown>, name: string): boolean | undefined {
+  return readArgument(args, name, (value): value is boolean => typeof value === 'boolean', 'a boolean');
+}
+
+export function optionalInteger(args: Record<string, unknown>, name: string): number | undefined {
+  return readArgument(args, name, (value): value is number => Number.isInteger(value), 'an integer');
+}
+
+export function optionalStringArray(args: Record<string, unknown>, name: string): string[] | undefined {
+  return readArgument(args, name, isStringArray, 'an array of strings');
+}
+
+function readArgument<T>(
+  args: Record<string, unknown>,
+  name: string,
+  matches: (value: unknown) => value is T,
+  expected: string,
+): T | undefined {
+  const value = args[name];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!matches(value)) {
+    throw new Error(`Argument "${name}" must be ${expected}`);
+  }
+  return value;
+}
@@ -1,6 +1,10 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { ProjectInfo } from '../types';
+import { ProjectInfo, ToolchainInfo, WorkspaceInfo } from '../types';
+import { DependencyGraph, FileDependencies, buildDependencyGraph } from './dependency-graph';
+import { GeneratedWriteResult, generatedRegion, writeGeneratedFile } from './generated-regions';
+import { createKnowledgeMetadata, getHeadCommit, getKnowledgePath, withKnowledgeMetadata } from './knowledge-files';
+import { createScopeFilter, listProjectFiles } from './scan-scope';
 
 interface SourceFile {
   path: string;
@@ -9,30 +13,105 @@ interface SourceFile {
   language: string;
 }
 
-export async function analyzeProject(projectPath: string, projectInfo: ProjectInfo): Promise<void> {
+/**
+ * A workspace package the architecture docs are scoped to; paths inside it are read
+ * relative to `baseDir`
+ */
+interface PackageScope {
+  name: string;
+  baseDir: string;
+}
+
+/**
+ * Default cap on knowledge stubs per run; 0 disables the cap
+ */
+export const DEFAULT_MAX_KNOWLEDGE_FILES = 200;
+
+export interface AnalyzeOptions {
+  /**
+   * Overwrite architecture and pattern files that have no generated regions
+   */
+  force?: boolean;
+  maxFiles?: number | undefined;
+}
+
+export interface AnalyzeSummary {
+  created: string[];
+  updated: string[];
+  unchanged: string[];
+  skipped: string[];
+  scannedFiles: number;
+  knowledgeFiles: number;
+}
+
+export async function analyzeProject(
+  projectPath: string,
+  projectInfo: ProjectInfo,
+  options: AnalyzeOptions = {},
+): Promise<AnalyzeSummary> {
   const agpPath = path.join(projectPath, '.agp');
+  const summary: AnalyzeSummary = {
+    created: [],
+    updated: [],
+    unchanged: [],
+    skipped: [],
+    scannedFiles: 0,
+    knowledgeFiles: 0,
+  };
+  const record = (filePath: string, result: GeneratedWriteResult) => {
+    summary[result].push(path.relative(agpPath, filePath).split(path.sep).join('/'));
+  };
 
   // Find all source files
   const sourceFiles = await findSourceFiles(projectPath);
+  const knowledgeFiles = selectKnowledgeFiles(sourceFiles, options.maxFiles ?? DEFAULT_MAX_KNOWLEDGE_FILES);
+  summary.scannedFiles = sourceFiles.length;
+  summary.knowledgeFiles = knowledgeFiles.length;
 
   // Generate architecture documentation
-  await generateArchitectureFiles(agpPath, projectInfo, sourceFiles);
+  await generateArchitectureFiles(agpPath, projectInfo, sourceFiles, options, record);
 
   // Generate pattern documentation
-  await generatePatternFiles(agpPath, projectInfo, sourceFiles);
+  await generatePatternFiles(agpPath, projectInfo, sourceFiles, options, record);
+
+  // Resolve imports across every scanned file so Output edges are complete
+  const dependencyGraph = await buildDependencyGraph(projectPath, sourceFiles);
 
   // Generate initial knowledge files for existing source files
-  for (const file of sourceFiles.slice(0, 10)) {
-    // Limit to first 10 files for demo
-    await generateSourceFileKnowledge(agpPath, file);
+  const analyzedCommit = await getHeadCommit(projectPath);
+  for (const file of knowledgeFiles) {
+    const knowledgePath = getKnowledgePath(agpPath, file.relativePath);
+    record(
+      knowledgePath,
+      await generateSourceFileKnowledge(agpPath, projectPath, file, dependencyGraph, analyzedCommit),
+    );
+  }
+
+  return summary;
+}
+
+/**
+ * Write the knowledge stub for a single source file, the way `analyzeProject` would.
+ * Returns null when the analyzer does not cover the file (ignored, or not source code).
+ */
+export async function createKnowledgeStub(
+  projectPath: string,
+  relativePath: string,
+): Promise<GeneratedWriteResult | null> {
+  const sourceFiles = await findSourceFiles(projectPath);
+  const file = sourceFiles.find((candidate) => candidate.relativePath === relativePath);
+  if (!file) {
+    return null;
   }
 
-  // Additional files can be processed as needed
+  const dependencyGraph = await buildDependencyGraph(projectPath, sourceFiles);
+  const analyzedCommit = await getHeadCommit(projectPath);
+  const agpPath = path.join(projectPath, '.agp');
+  return await generateSourceFileKnowledge(agpPath, projectPath, file, dependencyGraph, analyzedCommit);
 }
 
 async function findSourceFiles(projectPath: string): Promise<SourceFile[]> {
-  const sourceFiles: SourceFile[] = [];
-  const extensions = [
+  const extensions = new Set([
     // JavaScript/TypeScript
     '.ts',
     '.tsx',
@@ -92,7 +171,6 @@ async function findSourceFiles(projectPath: string): Promise<SourceFile[]> {
     '.bash',
     '.zsh',
     '.ps1',
-    '.py',
     '.pl',
     // Other
     '.r',
@@ -100,57 +178,35 @@ async function findSourceFiles(projectPath: string): Promise<SourceFile[]> {
     '.nim',
     '.zig',
     '.odin',
-  ];
-  const excludeDirs = [
-    'node_modules',
-    'dist',
-    'build',
-    '.git',
-    '.agp',
-    'coverage',
-    'target',
-    'bin',
-    'obj',
-    '__pycache__',
-    '.venv',
-    'venv',
-    'vendor',
-    '.idea',
-    '.vscode',
-    'tmp',
-    'temp',
-  ];
-
-  async function scanDirectory(dirPath: string): Promise<void> {
-    try {
-      const items = await fs.readdir(dirPath);
-
-      for (const item of items) {
-        const fullPath = path.join(dirPath, item);
-        const stat = await fs.stat(fullPath);
-
-        if (stat.isDirectory() && !excludeDirs.includes(item)) {
-          await scanDirectory(fullPath);
-        } else if (stat.isFile()) {
-          const ext = path.extname(item);
-          if (extensions.includes(ext)) {
-            const relativePath = path.relative(projectPath, fullPath);
-            sourceFiles.push({
-              path: fullPath,
-              relativePath,
-              type: determineFileType(relativePath),
-              language: determineLanguage(ext),
-            });
-          }
-        }
-      }
-    } catch (error) {
-      // Skip directories we can't read
-    }
+  ]);
+
+  // Honors .gitignore and .agpignore
+  const filter = await createScopeFilter(projectPath);
+  const projectFiles = await listProjectFiles(projectPath, filter);
+
+  return projectFiles
+    .filter((relativePath) => extensions.has(path.extname(relativePath)))
+    .map((relativePath) => ({
+      path: path.join(projectPath, relativePath),
+      relativePath,
+      type: determineFileType(relativePath),
+      language: determineLanguage(path.extname(relativePath)),
+    }));
+}
+
+/**
+ * Pick the files that get knowledge stubs when the project has more than `maxFiles`.
+ * Source code comes first, then tests, config, build scripts and docs.
+ */
+function selectKnowledgeFiles(sourceFiles: SourceFile[], maxFiles: number): SourceFile[] {
+  if (maxFiles <= 0 || sourceFiles.length <= maxFiles) {
+    return sourceFiles;
   }
 
-  await scanDirectory(projectPath);
-  return sourceFiles;
+  const priority: SourceFile['type'][] = ['source', 'test', 'config', 'build', 'docs', 'other'];
+  return [...sourceFiles]
+    .sort((a, b) => priority.indexOf(a.type) - priority.indexOf(b.type) || a.relativePath.localeCompare(b.relativePath))
+    .slice(0, maxFiles);
 }
 
 function determineFileType(filePath: string): SourceFile['type'] {
@@ -280,18 +336,46 @@ async function generateArchitectureFiles(
   agpPath: string,
   projectInfo: ProjectInfo,
   sourceFiles: SourceFile[],
+  options: AnalyzeOptions,
+  record: (filePath: string, result: GeneratedWriteResult) => void,
 ): Promise<void> {
   const architecturePath = path.join(agpPath, 'architecture');
+  await fs.ensureDir(architecturePath);
 
   // Generate feature domains based on directory structure
   const domains = extractFeatureDomains(sourceFiles);
   const featureDomainsContent = generateFeatureDomainsContent(domains, projectInfo);
 
-  await fs.writeFile(path.join(architecturePath, 'feature-domains.md'), featureDomainsContent);
+  const featureDomainsPath = path.join(architecturePath, 'feature-domains.md');
+  record(featureDomainsPath, await writeGeneratedFile(featureDomainsPath, featureDomainsContent, options));
 
   // Generate project overview
   const projectOverviewContent = generateProjectOverviewContent(projectInfo, sourceFiles);
-  await fs.writeFile(path.join(architecturePath, 'project-overview.md'), projectOverviewContent);
+  const projectOverviewPath = path.join(architecturePath, 'project-overview.md');
+  record(projectOverviewPath, await writeGeneratedFile(projectOverviewPath, projectOverviewContent, options));
+
+  // Monorepos get a workspace overview plus an overview and domain map per package
+  if (projectInfo.workspace) {
+    const workspaceOverviewContent = generateWorkspaceOverviewContent(projectInfo.workspace, sourceFiles);
+    const workspaceOverviewPath = path.join(architecturePath, 'workspace-overview.md');
+    record(workspaceOverviewPath, await writeGeneratedFile(workspaceOverviewPath, workspaceOverviewContent, options));
+
+    for (const workspacePackage of projectInfo.workspace.packages) {
+      const scope: PackageScope = { name: workspacePackage.name, baseDir: workspacePackage.path };
+      const packageFiles = sourceFiles.filter((file) => file.relativePath.startsWith(`${scope.baseDir}/`));
+      const packageArchitecturePath = path.join(architecturePath, 'workspaces', scope.baseDir);
+      await fs.ensureDir(packageArchitecturePath);
+
+      const packageDomains = extractFeatureDomains(packageFiles, scope);
+      const packageDomainsContent = generateFeatureDomainsContent(packageDomains, workspacePackage.projectInfo);
+      const packageDomainsPath = path.join(packageArchitecturePath, 'feature-domains.md');
+      record(packageDomainsPath, await writeGeneratedFile(packageDomainsPath, packageDomainsContent, options));
+
+      const packageOverviewContent = generateProjectOverviewContent(workspacePackage.projectInfo, packageFiles, scope);
+      const packageOverviewPath = path.join(packageArchitecturePath, 'project-overview.md');
+      record(packageOverviewPath, await writeGeneratedFile(packageOverviewPath, packageOverviewContent, options));
+    }
+  }
 
   // Architecture documentation completed
 }
@@ -300,31 +384,44 @@ async function generatePatternFiles(
   agpPath: string,
   projectInfo: ProjectInfo,
   sourceFiles: SourceFile[],
+  options: AnalyzeOptions,
+  record: (filePath: string, result: GeneratedWriteResult) => void,
 ): Promise<void> {
   const patternsPath = path.join(agpPath, 'patterns');
+  await fs.ensureDir(patternsPath);
 
   // Generate code organization patterns based on detected directory structure
   const sourceCodeFiles = sourceFiles.filter((f) => f.type === 'source');
   if (sourceCodeFiles.length > 0) {
     const codePatternContent = generateCodeOrganizationPatternContent(sourceCodeFiles, projectInfo);
-    await fs.writeFile(path.join(patternsPath, 'code-organization-patterns.md'), codePatternContent);
+    const codePatternPath = path.join(patternsPath, 'code-organization-patterns.md');
+    record(codePatternPath, await writeGeneratedFile(codePatternPath, codePatternContent, options));
   }
 
   // Generate testing patterns if test files are found
   const testFiles = sourceFiles.filter((f) => f.type === 'test');
   if (testFiles.length > 0) {
     const testPatternContent = generateTestPatternContent(testFiles);
-    await fs.writeFile(path.join(patternsPath, 'testing-patterns.md'), testPatternContent);
+    const testPatternPath = path.join(patternsPath, 'testing-patterns.md');
+    record(testPatternPath, await writeGeneratedFile(testPatternPath, testPatternContent, options));
   }
 
   // Pattern documentation completed
 }
 
-function extractFeatureDomains(sourceFiles: SourceFile[]): Record<string, string[]> {
+/**
+ * Path segments of a file, relative to the package when scoped to one
+ */
+function getScopedSegments(file: SourceFile, scope?: PackageScope): string[] {
+  const relativePath = scope ? file.relativePath.slice(scope.baseDir.length + 1) : file.relativePath;
+  return relativePath.split('/');
+}
+
+function extractFeatureDomains(sourceFiles: SourceFile[], scope?: PackageScope): Record<string, string[]> {
   const domains: Record<string, string[]> = {};
 
   sourceFiles.forEach((file) => {
-    const segments = file.relativePath.split('/');
+    const segments = getScopedSegments(file, scope);
     if (segments.length > 2) {
       const domain = segments[1]; // e.g., src/auth/... -> auth
       if (domain) {
@@ -337,10 +434,16 @@ function extractFeatureDomains(sourceFiles: SourceFile[]): Record<string, string
   return domains;
 }
 
-function generateFeatureDomainsContent(domains: Record<string, string[]>, projectInfo: ProjectInfo): string {
-  return `# Feature Domains
+/**
+ * "Django project", "Go project", or just "project" when nothing was detected
+ */
+function describeProject(projectInfo: ProjectInfo): string {
+  const stack = projectInfo.framework || projectInfo.language;
+  return stack ? `${stack} project` : 'project';
+}
 
-This document maps the feature domains in this ${projectInfo.type} project.
+function generateFeatureDomainsContent(domains: Record<string, string[]>, projectInfo: ProjectInfo): string {
+  const domainsContent = `This document maps the feature domains in this ${describeProject(projectInfo)}.
 
 ${Object.keys(domains)
   .map((domain) => {
@@ -354,14 +457,22 @@ ${Object.keys(domains)
 - **Knowledge**: .agp/project/${knowledgePath}/
 `;
   })
-  .join('')}
+  .join('')}`;
+
+  return `# Feature Domains
+
+${generatedRegion('feature-domains', domainsContent)}
 
 ## Adding New Features
 When adding new features, follow the existing domain structure and create corresponding knowledge files in .agp/project/.
 `;
 }
 
-function generateProjectOverviewContent(projectInfo: ProjectInfo, sourceFiles: SourceFile[]): string {
+function generateProjectOverviewContent(
+  projectInfo: ProjectInfo,
+  sourceFiles: SourceFile[],
+  scope?: PackageScope,
+): string {
   const fileTypes = sourceFiles.reduce(
     (acc, file) => {
       acc[file.type] = (acc[file.type] || 0) + 1;
@@ -370,27 +481,108 @@ function generateProjectOverviewContent(projectInfo: ProjectInfo, sourceFiles: S
     {} as Record<string, number>,
   );
 
-  return `# Project Overview
+  const architectureNotes = projectInfo.workspace
+    ? `This is a ${projectInfo.workspace.tools.join(' + ')} workspace with ${projectInfo.workspace.packages.length} packages and ${sourceFiles.length} source files. See workspace-overview.md for the package map.`
+    : `This ${describeProject(projectInfo)} has ${sourceFiles.length} source files organized into a standard directory structure.`;
+  const keyDirectories = Array.from(new Set(sourceFiles.map((f) => getScopedSegments(f, scope)[1]).filter(Boolean)));
+
+  return `# ${scope ? `${scope.name} Overview` : 'Project Overview'}
 
 ## Project Type
-- **Framework**: ${projectInfo.framework || projectInfo.type}
+${generatedRegion(
+  'project-type',
+  `- **Language**: ${projectInfo.language || 'Not detected'}
+- **Framework**: ${projectInfo.framework || 'None detected'}
 - **Build Tool**: ${projectInfo.buildTool || 'Not detected'}
-- **Package Manager**: ${projectInfo.hasPackageJson ? 'Detected' : 'None'}
+${generateToolchainContent(projectInfo.toolchain)}`,
+)}
 
 ## File Structure
-${Object.entries(fileTypes)
-  .map(([type, count]) => `- **${type}**: ${count} files`)
-  .join('\n')}
+${generatedRegion(
+  'file-structure',
+  Object.entries(fileTypes)
+    .map(([type, count]) => `- **${type}**: ${count} files`)
+    .join('\n'),
+)}
 
 ## Architecture Notes
-This is a ${projectInfo.type} project with ${sourceFiles.length} source files organized into a standard directory structure.
+${generatedRegion('architecture-notes', architectureNotes)}
 
 ## Key Directories
-${Array.from(new Set(sourceFiles.map((f) => f.relativePath.split('/')[1]).filter(Boolean)))
-  .map(
-    (dir) => `- \`${dir}/\` - Contains ${sourceFiles.filter((f) => f.relativePath.includes(dir || '')).length} files`,
-  )
-  .join('\n')}
+${generatedRegion(
+  'key-directories',
+  keyDirectories
+    .map(
+      (dir) => `- \`${dir}/\` - Contains ${sourceFiles.filter((f) => f.relativePath.includes(dir || '')).length} files`,
+    )
+    .join('\n'),
+)}
+`;
+}
+
+function generateToolchainContent(toolchain: ToolchainInfo | undefined): string {
+  const list = (items: string[] | undefined) => (items && items.length > 0 ? items.join(', ') : 'None detected');
+  const typescript = toolchain?.typescript
+    ? [
+        toolchain.typescript.version,
+        toolchain.typescript.strict ? 'strict' : 'not strict',
+        ...toolchain.typescript.flags.map((flag) => `\`${flag}\``),
+      ]
+        .filter(Boolean)
+        .join(', ')
+    : 'Not used';
+  const commands = Object.entries(toolchain?.commands || {});
+
+  return `- **Package Manager**: ${toolchain?.packageManager || 'Not detected'}
+- **Runtime**: ${toolchain?.runtime || 'Not specified'}
+- **Test Frameworks**: ${list(toolchain?.testFrameworks)}
+- **Linters**: ${list(toolchain?.linters)}
+- **Formatters**: ${list(toolchain?.formatters)}
+- **TypeScript**: ${typescript}
+- **CI**: ${list(toolchain?.ciProviders)}
+- **Commands**:${commands.length > 0 ? `\n${commands.map(([purpose, command]) => `  - ${purpose}: \`${command}\``).join('\n')}` : ' None detected'}`;
+}
+
+function generateWorkspaceOverviewContent(workspace: WorkspaceInfo, sourceFiles: SourceFile[]): string {
+  const packagesContent = workspace.packages
+    .map((workspacePackage) => {
+      const fileCount = sourceFiles.filter((f) => f.relativePath.startsWith(`${workspacePackage.path}/`)).length;
+      const framework =
+        workspacePackage.projectInfo.framework || workspacePackage.projectInfo.language || 'Unknown stack';
+
+      return `- **${workspacePackage.name}** (\`${workspacePackage.path}/\`) - ${framework}, ${fileCount} files
+  - **Architecture**: .agp/architecture/workspaces/${workspacePackage.path}/`;
+    })
+    .join('\n');
+
+  const dependents = workspace.packages.filter((workspacePackage) => workspacePackage.workspaceDependencies.length > 0);
+  const dependenciesContent =
+    dependents.length > 0
+      ? dependents
+          .map(
+            (workspacePackage) =>
+              `- **${workspacePackage.name}** depends on ${workspacePackage.workspaceDependencies.map((name) => `\`${name}\``).join(', ')}`,
+          )
+          .join('\n')
+      : 'No dependencies between workspace packages detected.';
+
+  return `# Workspace Overview
+
+## Workspace
+${generatedRegion(
+  'workspace-tools',
+  `- **Managed by**: ${workspace.tools.join(', ')}
+- **Packages**: ${workspace.packages.length}`,
+)}
+
+## Packages
+${generatedRegion('workspace-packages', packagesContent)}
+
+## Package Dependencies
+${generatedRegion('workspace-dependencies', dependenciesContent)}
+
+## Adding New Packages
+Follow the layout of the existing packages and re-run \`agp analyze\` so the package gets its own overview and feature-domain map.
 `;
 }
 
@@ -400,9 +592,11 @@ function generateCodeOrganizationPatternContent(sourceFiles: SourceFile[], proje
 
   return `# Code Organization Patterns
 
-This document describes the code organization patterns used in this ${projectInfo.type} project.
+This document describes the code organization patterns used in this ${describeProject(projectInfo)}.
 
-## Languages Used
+${generatedRegion(
+  'code-organization',
+  `## Languages Used
 ${languages.map((lang) => `- **${lang}**: ${sourceFiles.filter((f) => f.language === lang).length} files`).join('\n')}
 
 ## Directory Structure
@@ -413,7 +607,8 @@ Common file naming patterns found:
 ${sourceFiles
   .slice(0, 10)
   .map((f) => `- \`${path.basename(f.relativePath)}\` (${f.language})`)
-  .join('\n')}
+  .join('\n')}`,
+)}
 
 ## Best Practices
 - Follow the established directory structure
@@ -431,7 +626,9 @@ function generateTestPatternContent(testFiles: SourceFile[]): string {
 
 This document describes the testing patterns used in this project.
 
-## Test Structure
+${generatedRegion(
+  'test-structure',
+  `## Test Structure
 - **Total Test Files**: ${testFiles.length}
 - **Languages**: ${testLanguages.join(', ')}
 
@@ -442,7 +639,8 @@ ${testDirs.map((dir) => `- \`${dir}/\``).join('\n')}
 ${testFiles
   .slice(0, 10)
   .map((f) => `- \`${f.relativePath}\` (${f.language})`)
-  .join('\n')}
+  .join('\n')}`,
+)}
 
 ## Best Practices
 - Keep tests close to the code they test
@@ -452,8 +650,14 @@ ${testFiles
 `;
 }
 
-async function generateSourceFileKnowledge(agpPath: string, file: SourceFile): Promise<void> {
-  const knowledgePath = path.join(agpPath, 'project', `${file.relativePath}.md`);
+async function generateSourceFileKnowledge(
+  agpPath: string,
+  projectPath: string,
+  file: SourceFile,
+  dependencyGraph: DependencyGraph,
+  analyzedCommit?: string,
+): Promise<GeneratedWriteResult> {
+  const knowledgePath = getKnowledgePath(agpPath, file.relativePath);
   const knowledgeDir = path.dirname(knowledgePath);
 
   await fs.ensureDir(knowledgeDir);
@@ -465,14 +669,15 @@ async function generateSourceFileKnowledge(agpPath: string, file: SourceFile): P
 - Auto-generated knowledge file - update with specific implementation details
 
 ## Dependencies
-- **Input**: (Files this depends on)
-- **Output**: (Files that depend on this)
-- **External**: (Third-party libraries)
+${generatedRegion('dependencies', generateDependenciesContent(dependencyGraph.get(file.relativePath)))}
 
 ## Context
-- Located in \`${path.dirname(file.relativePath)}\`
+${generatedRegion(
+  'context',
+  `- Located in \`${path.dirname(file.relativePath)}\`
 - Type: ${file.type}
-- Language: ${file.language}
+- Language: ${file.language}`,
+)}
 
 ## Gotchas
 - (Add specific gotchas after implementation)
@@ -483,5 +688,45 @@ async function generateSourceFileKnowledge(agpPath: string, file: SourceFile): P
 - **Similar**: (Add links to similar files)
 `;
 
-  await fs.writeFile(knowledgePath, content);
+  // Existing knowledge only gets its generated regions refreshed; the source hash stays
+  // pinned to the version a human last reviewed
+  if (await fs.pathExists(knowledgePath)) {
+    await upgradeDependencyPlaceholders(knowledgePath);
+    return await writeGeneratedFile(knowledgePath, content);
+  }
+
+  // Record which version of the source this knowledge describes so `agp check` can spot drift
+  const metadata = await createKnowledgeMetadata(projectPath, file.relativePath, analyzedCommit);
+  return await writeGeneratedFile(knowledgePath, withKnowledgeMetadata(content, metadata));
+}
+
+const DEPENDENCY_PLACEHOLDERS = `- **Input**: (Files this depends on)
+- **Output**: (Files that depend on this)
+- **External**: (Third-party libraries)`;
+
+function generateDependenciesContent(dependencies: FileDependencies | undefined): string {
+  if (!dependencies) {
+    return DEPENDENCY_PLACEHOLDERS;
+  }
+
+  const formatList = (items: string[]) =>
+    items.length > 0 ? `\n${items.map((item) => `  - \`${item}\``).join('\n')}` : ' None';
+
+  return `- **Input**:${formatList(dependencies.input)}
+- **Output**:${formatList(dependencies.output)}
+- **External**:${formatList(dependencies.external)}`;
+}
+
+/**
+ * Knowledge files written before generated regions existed still carry the untouched
+ * placeholder lines; turn them into a region so the analyzer can fill them in.
+ */
+async function upgradeDependencyPlaceholders(knowledgePath: string): Promise<void> {
+  const content = await fs.readFile(knowledgePath, 'utf8');
+  if (content.includes(DEPENDENCY_PLACEHOLDERS) && !content.includes('agp:generated:start dependencies')) {
+    await fs.writeFile(
+      knowledgePath,
+      content.replace(DEPENDENCY_PLACEHOLDERS, generatedRegion('dependencies', DEPENDENCY_PLACEHOLDERS)),
+    );
+  }
 }
@@ -1,57 +1,330 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { ProjectInfo } from '../types';
+import { ProjectInfo, WorkspaceInfo, WorkspacePackage } from '../types';
+import { isRecord } from './json';
+import { detectToolchain } from './toolchain-detector';
+import { discoverWorkspace } from './workspaces';
 
 export async function detectProjectType(projectPath: string): Promise<ProjectInfo> {
-  const packageJsonPath = path.join(projectPath, 'package.json');
-  const hasPackageJson = await fs.pathExists(packageJsonPath);
+  const projectInfo = await detectPackage(projectPath);
+
+  const workspace = await detectWorkspace(projectPath);
+  if (workspace) {
+    projectInfo.workspace = workspace;
+  }
+
+  return projectInfo;
+}
+
+type StackDetection = Pick<ProjectInfo, 'type' | 'language' | 'framework' | 'buildTool'>;
+
+/**
+ * Manifest-based detectors, one per ecosystem. Each returns null when its manifest is absent.
+ */
+const stackDetectors: Array<(projectPath: string) => Promise<StackDetection | null>> = [
+  detectJavaScriptStack,
+  detectPythonStack,
+  detectGoStack,
+  detectRustStack,
+  detectJvmStack,
+  detectRubyStack,
+  detectPhpStack,
+  detectDartStack,
+];
+
+/**
+ * Detect a single package, either the project root or one workspace package.
+ * Repos often carry manifests for several ecosystems (a package.json for tooling next to
+ * a Django app); the first detection that identifies a framework wins.
+ */
+async function detectPackage(projectPath: string): Promise<ProjectInfo> {
+  const hasPackageJson = await fs.pathExists(path.join(projectPath, 'package.json'));
   const hasGitRepo = await fs.pathExists(path.join(projectPath, '.git'));
 
-  let projectType: ProjectInfo['type'] = 'unknown';
-  let framework: string | undefined;
-  let buildTool: string | undefined;
-
-  if (hasPackageJson) {
-    try {
-      const packageJson = await fs.readJson(packageJsonPath);
-      const deps = { ...packageJson.dependencies, ...packageJson.devDependencies };
-
-      // Detect framework
-      if (deps['next']) {
-        projectType = 'nextjs';
-        framework = 'Next.js';
-      } else if (deps['react']) {
-        projectType = 'react';
-        framework = 'React';
-      } else if (deps['vue']) {
-        projectType = 'vue';
-        framework = 'Vue';
-      } else if (deps['@nestjs/core']) {
-        projectType = 'nestjs';
-        framework = 'NestJS';
-      } else if (deps['express']) {
-        projectType = 'express';
-        framework = 'Express';
-      }
-
-      // Detect build tool
-      if (deps['vite']) {
-        buildTool = 'Vite';
-      } else if (deps['webpack']) {
-        buildTool = 'Webpack';
-      } else if (deps['parcel']) {
-        buildTool = 'Parcel';
-      }
-    } catch (error) {
-      // Invalid package.json, treat as unknown
-    }
+  const detections: StackDetection[] = [];
+  for (const detector of stackDetectors) {
+    const detection = await detector(projectPath);
+    if (detection) detections.push(detection);
   }
 
+  const stack = detections.find((detection) => detection.framework) || detections[0];
+
   return {
-    type: projectType,
+    type: stack?.type || 'unknown',
     hasPackageJson,
     hasGitRepo,
-    framework,
-    buildTool,
+    language: stack?.language,
+    framework: stack?.framework,
+    buildTool: stack?.buildTool,
+    toolchain: await detectToolchain(projectPath),
+  };
+}
+
+async function detectJavaScriptStack(projectPath: string): Promise<StackDetection | null> {
+  const packageJson = await readJson(path.join(projectPath, 'package.json'));
+  if (!packageJson) {
+    return null;
+  }
+
+  const deps = getDependencies(packageJson);
+  const detection: StackDetection = {
+    type: 'unknown',
+    language:
+      deps['typescript'] || (await fs.pathExists(path.join(projectPath, 'tsconfig.json')))
+        ? 'TypeScript'
+        : 'JavaScript',
+  };
+
+  // Detect framework
+  if (deps['next']) {
+    detection.type = 'nextjs';
+    detection.framework = 'Next.js';
+  } else if (deps['react']) {
+    detection.type = 'react';
+    detection.framework = 'React';
+  } else if (deps['vue']) {
+    detection.type = 'vue';
+    detection.framework = 'Vue';
+  } else if (deps['@nestjs/core']) {
+    detection.type = 'nestjs';
+    detection.framework = 'NestJS';
+  } else if (deps['express']) {
+    detection.type = 'express';
+    detection.framework = 'Express';
+  }
+
+  // Detect build tool
+  if (deps['vite']) {
+    detection.buildTool = 'Vite';
+  } else if (deps['webpack']) {
+    detection.buildTool = 'Webpack';
+  } else if (deps['parcel']) {
+    detection.buildTool = 'Parcel';
+  }
+
+  return detection;
+}
+
+async function detectPythonStack(projectPath: string): Promise<StackDetection | null> {
+  const manifests = await readManifests(projectPath, [
+    'pyproject.toml',
+    'requirements.txt',
+    'setup.py',
+    'setup.cfg',
+    'Pipfile',
+  ]);
+  if (manifests === null) {
+    return null;
+  }
+
+  const detection: StackDetection = { type: 'python', language: 'Python' };
+  const content = manifests.toLowerCase();
+
+  if (/\bdjango\b/.test(content) || (await fs.pathExists(path.join(projectPath, 'manage.py')))) {
+    detection.type = 'django';
+    detection.framework = 'Django';
+  } else if (/\bfastapi\b/.test(content)) {
+    detection.type = 'fastapi';
+    detection.framework = 'FastAPI';
+  } else if (/\bflask\b/.test(content)) {
+    detection.type = 'flask';
+    detection.framework = 'Flask';
+  }
+
+  if (content.includes('[tool.poetry]')) {
+    detection.buildTool = 'Poetry';
+  } else if (content.includes('hatchling')) {
+    detection.buildTool = 'Hatch';
+  } else if (content.includes('setuptools') || (await fs.pathExists(path.join(projectPath, 'setup.py')))) {
+    detection.buildTool = 'setuptools';
+  }
+
+  return detection;
+}
+
+async function detectGoStack(projectPath: string): Promise<StackDetection | null> {
+  const goMod = await readManifests(projectPath, ['go.mod']);
+  if (goMod === null) {
+    return null;
+  }
+
+  return {
+    type: 'go',
+    language: 'Go',
+    framework: matchDependency(goMod, {
+      'github.com/gin-gonic/gin': 'Gin',
+      'github.com/labstack/echo': 'Echo',
+      'github.com/gofiber/fiber': 'Fiber',
+      'github.com/go-chi/chi': 'chi',
+    }),
+    buildTool: 'Go modules',
+  };
+}
+
+async function detectRustStack(projectPath: string): Promise<StackDetection | null> {
+  const cargoToml = await readManifests(projectPath, ['Cargo.toml']);
+  if (cargoToml === null) {
+    return null;
+  }
+
+  return {
+    type: 'rust',
+    language: 'Rust',
+    framework: matchDependency(cargoToml, {
+      'actix-web': 'Actix Web',
+      axum: 'Axum',
+      rocket: 'Rocket',
+      tauri: 'Tauri',
+    }),
+    buildTool: 'Cargo',
+  };
+}
+
+async function detectJvmStack(projectPath: string): Promise<StackDetection | null> {
+  const gradle = await readManifests(projectPath, ['build.gradle', 'build.gradle.kts']);
+  const maven = await readManifests(projectPath, ['pom.xml']);
+  if (gradle === null && maven === null) {
+    return null;
+  }
+
+  const content = `${gradle || ''}\n${maven || ''}`;
+  const isSpring = content.includes('org.springframework');
+
+  return {
+    type: isSpring ? 'spring' : 'jvm',
+    language:
+      content.includes('kotlin') || (await fs.pathExists(path.join(projectPath, 'build.gradle.kts')))
+        ? 'Kotlin'
+        : 'Java',
+    framework: isSpring ? (content.includes('spring-boot') ? 'Spring Boot' : 'Spring') : undefined,
+    buildTool: gradle !== null ? 'Gradle' : 'Maven',
+  };
+}
+
+async function detectRubyStack(projectPath: string): Promise<StackDetection | null> {
+  const gemfile = await readManifests(projectPath, ['Gemfile']);
+  if (gemfile === null) {
+    return null;
+  }
+
+  const isRails = /^\s*gem\s+['"]rails['"]/m.test(gemfile);
+  return {
+    type: isRails ? 'rails' : 'ruby',
+    language: 'Ruby',
+    framework: isRails ? 'Ruby on Rails' : undefined,
+    buildTool: 'Bundler',
+  };
+}
+
+async function detectPhpStack(projectPath: string): Promise<StackDetection | null> {
+  const composerJson = await readJson(path.join(projectPath, 'composer.json'));
+  if (!composerJson) {
+    return null;
+  }
+
+  const requires = composerJson['require'];
+  const isLaravel = isRecord(requires) && !!requires['laravel/framework'];
+  return {
+    type: isLaravel ? 'laravel' : 'php',
+    language: 'PHP',
+    framework: isLaravel ? 'Laravel' : undefined,
+    buildTool: 'Composer',
   };
 }
+
+async function detectDartStack(projectPath: string): Promise<StackDetection | null> {
+  const pubspec = await readManifests(projectPath, ['pubspec.yaml']);
+  if (pubspec === null) {
+    return null;
+  }
+
+  const isFlutter = /^\s+flutter:\s*\n\s+sdk:\s*flutter/m.test(pubspec);
+  return {
+    type: isFlutter ? 'flutter' : 'dart',
+    language: 'Dart',
+    framework: isFlutter ? 'Flutter' : undefined,
+    buildTool: 'pub',
+  };
+}
+
+/**
+ * Concatenated content of whichever of the given manifests exist, or null if none do
+ */
+async function readManifests(projectPath: string, fileNames: string[]): Promise<string | null> {
+  const contents: string[] = [];
+  for (const fileName of fileNames) {
+    const filePath = path.join(projectPath, fileName);
+    if (await fs.pathExists(filePath)) {
+      contents.push(await fs.readFile(filePath, 'utf8'));
+    }
+  }
+
+  return contents.length > 0 ? contents.join('\n') : null;
+}
+
+function matchDependency(manifest: string, frameworks: Record<string, string>): string | undefined {
+  const match = Object.keys(frameworks).find((dependency) =>
+    new RegExp(`(^|[\\s"'/])${dependency.replace(/[.+]/g, '\\$&')}([\\s"'=/]|$)`, 'm').test(manifest),
+  );
+  return match ? frameworks[match] : undefined;
+}
+
+/**
+ * Detect every package of a monorepo separately, since a workspace commonly mixes
+ * frameworks (Next.js apps, NestJS services, plain libraries)
+ */
+async function detectWorkspace(projectPath: string): Promise<WorkspaceInfo | null> {
+  const manifest = await discoverWorkspace(projectPath);
+  if (!manifest || manifest.packageDirs.length === 0) {
+    return null;
+  }
+
+  const packages: WorkspacePackage[] = [];
+  const dependencyNames = new Map<WorkspacePackage, string[]>();
+
+  for (const packageDir of manifest.packageDirs) {
+    const packagePath = path.join(projectPath, packageDir);
+    const packageJson = await readJson(path.join(packagePath, 'package.json'));
+    const nxProject = await readJson(path.join(packagePath, 'project.json'));
+
+    const name = [packageJson?.['name'], nxProject?.['name']].find(
+      (candidate): candidate is string => typeof candidate === 'string' && candidate !== '',
+    );
+
+    const workspacePackage: WorkspacePackage = {
+      name: name || packageDir,
+      path: packageDir,
+      projectInfo: await detectPackage(packagePath),
+      workspaceDependencies: [],
+    };
+    packages.push(workspacePackage);
+    dependencyNames.set(workspacePackage, Object.keys(getDependencies(packageJson)));
+  }
+
+  const packageNames = new Set(packages.map((workspacePackage) => workspacePackage.name));
+  for (const workspacePackage of packages) {
+    workspacePackage.workspaceDependencies = (dependencyNames.get(workspacePackage) || [])
+      .filter((name) => packageNames.has(name) && name !== workspacePackage.name)
+      .sort();
+  }
+
+  return { tools: manifest.tools, packages };
+}
+
+async function readJson(filePath: string): Promise<Record<string, unknown> | null> {
+  try {
+    const json: unknown = await fs.readJson(filePath);
+    return isRecord(json) ? json : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Runtime and development dependencies of a package.json, by name
+ */
+function getDependencies(packageJson: Record<string, unknown> | null): Record<string, unknown> {
+  const dependencies = packageJson?.['dependencies'];
+  const devDependencies = packageJson?.['devDependencies'];
+  return { ...(isRecord(dependencies) ? dependencies : {}), ...(isRecord(devDependencies) ? devDependencies : {}) };
+}
@@ -0,0 +1,100 @@
+import * as fs from 'fs-extra';
+import ignore, { Ignore } from 'ignore';
+import * as path from 'path';
+import { tryGit } from './git';
+
+/**
+ * Project-level scan rules in .gitignore syntax. Patterns exclude files from analysis;
+ * `!pattern` re-includes them, e.g. `/*` followed by `!/src/` limits analysis to src.
+ */
+export const AGPIGNORE_FILE = '.agpignore';
+
+/**
+ * Excluded before .agpignore rules are applied, so .agpignore can re-include them
+ */
+const DEFAULT_EXCLUDES = [
+  'node_modules/',
+  'dist/',
+  'build/',
+  '.git/',
+  '.agp/',
+  'coverage/',
+  'target/',
+  'bin/',
+  'obj/',
+  '__pycache__/',
+  '.venv/',
+  'venv/',
+  'vendor/',
+  '.idea/',
+  '.vscode/',
+  'tmp/',
+  'temp/',
+];
+
+export async function createScopeFilter(projectPath: string): Promise<Ignore> {
+  const filter = ignore().add(DEFAULT_EXCLUDES);
+
+  const agpignorePath = path.join(projectPath, AGPIGNORE_FILE);
+  if (await fs.pathExists(agpignorePath)) {
+    filter.add(await fs.readFile(agpignorePath, 'utf8'));
+  }
+
+  return filter;
+}
+
+/**
+ * List project files (relative, forward slashes) that are not ignored by Git.
+ * Uses git itself when possible so nested .gitignore files and global excludes apply;
+ * otherwise walks the tree honoring the root .gitignore.
+ */
+export async function listProjectFiles(projectPath: string, filter: Ignore): Promise<string[]> {
+  const gitFiles = await tryGit(['ls-files', '--cached', '--others', '--exclude-standard', '-z'], projectPath);
+  if (gitFiles !== null) {
+    const files: string[] = [];
+    for (const file of gitFiles.split('\0').filter(Boolean)) {
+      if (filter.ignores(file)) continue;
+
+      // Skip deleted files and submodule entries
+      const stat = await fs.stat(path.join(projectPath, file)).catch(() => null);
+      if (stat?.isFile()) {
+        files.push(file);
+      }
+    }
+    return files.sort();
+  }
+
+  const gitignorePath = path.join(projectPath, '.gitignore');
+  const gitignore = ignore();
+  if (await fs.pathExists(gitignorePath)) {
+    gitignore.add(await fs.readFile(gitignorePath, 'utf8'));
+  }
+
+  const files: string[] = [];
+
+  async function scanDirectory(dirPath: string): Promise<void> {
+    try {
+      const items = await fs.readdir(dirPath);
+
+      for (const item of items) {
+        const fullPath = path.join(dirPath, item);
+        const stat = await fs.stat(fullPath);
+        const relativePath = path.relative(projectPath, fullPath).split(path.sep).join('/');
+        const candidate = stat.isDirectory() ? `${relativePath}/` : relativePath;
+
+        if (gitignore.ignores(candidate) || filter.ignores(candidate)) continue;
+
+        if (stat.isDirectory()) {
+          await scanDirectory(fullPath);
+        } else if (stat.isFile()) {
+          files.push(relativePath);
+        }
+      }
+    } catch (error) {
+      // Skip directories we can't read
+    }
+  }
+
+  await scanDirectory(projectPath);
+  return files.sort();
+}
@@ -0,0 +1,212 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplatePin } from '../types';
+import { tryGit } from './git';
+import {
+  downloadTemplate,
+  normalizeSha256,
+  parseTemplateSource,
+  resolveLocalTemplatePath,
+  TemplateSource,
+} from './template-manager';
+
+/**
+ * Downloaded templates are kept under the user's cache directory:
+ *
+ *   <cache>/agp/templates/<url key>/refs.json             ref -> commit and snapshot last fetched
+ *   <cache>/agp/templates/<url key>/snapshots/<hash>/     extracted template content
+ *
+ * Snapshots are addressed by a hash of their content, so the version a project was
+ * initialized from stays available as the merge base for `agp template update`.
+ */
+interface CachedRef {
+  commit?: string | undefined;
+  snapshot: string;
+  /**
+   * SHA-256 of the archive the snapshot was extracted from, if any
+   */
+  archiveSha256?: string | undefined;
+  fetchedAt: string;
+}
+
+export interface FetchedTemplate {
+  /**
+   * Snapshot directory in the cache; treat as read-only
+   */
+  path: string;
+  pin: TemplatePin;
+}
+
+export function getTemplateCacheDir(): string {
+  if (process.env['XDG_CACHE_HOME']) {
+    return path.join(process.env['XDG_CACHE_HOME'], 'agp', 'templates');
+  }
+  if (process.platform === 'darwin') {
+    return path.join(os.homedir(), 'Library', 'Caches', 'agp', 'templates');
+  }
+  if (process.platform === 'win32' && process.env['LOCALAPPDATA']) {
+    return path.join(process.env['LOCALAPPDATA'], 'agp', 'Cache', 'templates');
+  }
+  return path.join(os.homedir(), '.cache', 'agp', 'templates');
+}
+
+/**
+ * Get a template through the cache. Remote refs are resolved with `git ls-remote` so a
+ * cached snapshot is reused while the ref still points at the same commit, and used as-is
+ * when the remote is unreachable. `refresh` forces a download when the commit is unknown.
+ * With `sha256`, only a snapshot extracted from an archive with that checksum is reused.
+ */
+export async function fetchTemplate(
+  templateUrl: string,
+  options: { refresh?: boolean; sha256?: string | undefined } = {},
+): Promise<FetchedTemplate> {
+  const parsed = parseTemplateSource(templateUrl);
+  const localPath = resolveLocalTemplatePath(parsed.url);
+  // Local templates are pinned by absolute path so the pin works from any directory
+  const source: TemplateSource = { url: localPath || parsed.url, ref: parsed.ref };
+  const urlDir = getUrlCacheDir(source.url);
+  const refKey = source.ref || 'HEAD';
+
+  const commit = localPath ? await resolveLocalCommit(localPath, source.ref) : await resolveRemoteCommit(source);
+
+  const refs = await readCachedRefs(urlDir);
+  const cached = refs[refKey];
+  if (!localPath && cached && (await fs.pathExists(getSnapshotPath(urlDir, cached.snapshot)))) {
+    const sameCommit = commit ? cached.commit === commit : !options.refresh;
+    const verified = !options.sha256 || cached.archiveSha256 === normalizeSha256(options.sha256);
+    if (sameCommit && verified) {
+      return {
+        path: getSnapshotPath(urlDir, cached.snapshot),
+        pin: createPin(source, cached.commit, cached.snapshot),
+      };
+    }
+  }
+
+  const stagingDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agp-template-'));
+  const downloadPath = path.join(stagingDir, 'template');
+
+  try {
+    const { archiveSha256 } = await downloadTemplate(templateUrl, downloadPath, { sha256: options.sha256 });
+
+    const snapshot = await hashDirectory(downloadPath);
+    const snapshotPath = getSnapshotPath(urlDir, snapshot);
+    if (!(await fs.pathExists(snapshotPath))) {
+      await fs.ensureDir(path.dirname(snapshotPath));
+      await fs.move(downloadPath, snapshotPath);
+    }
+
+    refs[refKey] = { commit, snapshot, archiveSha256, fetchedAt: new Date().toISOString() };
+    if (commit && commit !== refKey) {
+      refs[commit] = refs[refKey]!;
+    }
+    await fs.writeJson(path.join(urlDir, 'refs.json'), { url: source.url, refs }, { spaces: 2 });
+
+    return { path: snapshotPath, pin: createPin(source, commit, snapshot) };
+  } finally {
+    await fs.remove(stagingDir);
+  }
+}
+
+/**
+ * Get the exact template content a pin refers to, re-fetching it by commit when the
+ * snapshot is no longer cached (e.g. on another machine)
+ */
+export async function getPinnedTemplatePath(pin: TemplatePin): Promise<string> {
+  const snapshotPath = getSnapshotPath(getUrlCacheDir(pin.url), pin.snapshot);
+  if (await fs.pathExists(snapshotPath)) {
+    return snapshotPath;
+  }
+
+  if (!pin.commit) {
+    throw new Error(
+      `Template version ${pin.snapshot} of ${pin.url} is not cached and has no commit to fetch it by.\n` +
+        'Template files can only be added, not merged, until a pinned version is available.',
+    );
+  }
+
+  const fetched = await fetchTemplate(`${pin.url}#${pin.commit}`);
+  return fetched.path;
+}
+
+function createPin(source: TemplateSource, commit: string | undefined, snapshot: string): TemplatePin {
+  const pin: TemplatePin = { url: source.url, snapshot, updatedAt: new Date().toISOString() };
+  if (source.ref) pin.ref = source.ref;
+  if (commit) pin.commit = commit;
+  return pin;
+}
+
+function getUrlCacheDir(url: string): string {
+  return path.join(getTemplateCacheDir(), createHash('sha256').update(url).digest('hex').slice(0, 16));
+}
+
+function getSnapshotPath(urlDir: string, snapshot: string): string {
+  return path.join(urlDir, 'snapshots', snapshot);
+}
+
+async function readCachedRefs(urlDir: string): Promise<Record<string, CachedRef>> {
+  try {
+    const index = await fs.readJson(path.join(urlDir, 'refs.json'));
+    return index.refs || {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Commit a remote ref points at; annotated tags resolve to the tagged commit
+ */
+async function resolveRemoteCommit(source: TemplateSource): Promise<string | undefined> {
+  if (source.ref && /^[0-9a-f]{40}$/i.test(source.ref)) {
+    return source.ref.toLowerCase();
+  }
+
+  const ref = source.ref || 'HEAD';
+  const output = await tryGit(['ls-remote', source.url, ref], os.tmpdir());
+  if (!output) {
+    return undefined;
+  }
+
+  const lines = output.split('\n').map((line) => line.split('\t') as [string, string]);
+  const preferred = [`refs/tags/${ref}^{}`, `refs/heads/${ref}`, `refs/tags/${ref}`, ref];
+  for (const name of preferred) {
+    const match = lines.find(([, refName]) => refName === name);
+    if (match) return match[0];
+  }
+  return lines[0]?.[0] || undefined;
+}
+
+/**
+ * Local directories are copied as they are on disk, so only an explicit ref of a local
+ * Git repository identifies a commit
+ */
+async function resolveLocalCommit(localPath: string, ref: string | undefined): Promise<string | undefined> {
+  if (!ref) {
+    return undefined;
+  }
+  return (await tryGit(['rev-parse', '--verify', `${ref}^{commit}`], localPath)) || undefined;
+}
+
+async function hashDirectory(dirPath: string): Promise<string> {
+  const hash = createHash('sha256');
+
+  async function addDirectory(currentPath: string): Promise<void> {
+    for (const item of (await fs.readdir(currentPath)).sort()) {
+      const fullPath = path.join(currentPath, item);
+      const stat = await fs.stat(fullPath);
+      const relativePath = path.relative(dirPath, fullPath).split(path.sep).join('/');
+
+      if (stat.isDirectory()) {
+        await addDirectory(fullPath);
+      } else {
+        hash.update(`${relativePath}\0`);
+        hash.update(await fs.readFile(fullPath));
+        hash.update('\0');
+      }
+    }
+  }
+
+  await addDirectory(dirPath);
+  return hash.digest('hex').slice(0, 16);
+}
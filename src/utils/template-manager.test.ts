@@ -0,0 +1,110 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { deflateRawSync } from 'zlib';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { downloadTemplate } from './template-manager';
+
+interface ZipEntry {
+  name: string;
+  content: string;
+  /**
+   * Uncompressed size written to the headers; the real size when omitted
+   */
+  declaredSize?: number;
+}
+
+/**
+ * Build a deflated ZIP archive by hand, so entries can carry sizes that do not match
+ * their content
+ */
+function buildZip(entries: ZipEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const data = deflateRawSync(Buffer.from(entry.content));
+    const size = entry.declaredSize ?? Buffer.byteLength(entry.content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, data);
+    centralParts.push(central, name);
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+describe('downloadTemplate from a local zip archive', () => {
+  let workPath: string;
+
+  beforeEach(async () => {
+    workPath = await fs.mkdtemp(path.join(os.tmpdir(), 'agp-template-zip-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workPath);
+  });
+
+  async function listExtractDirs(): Promise<string[]> {
+    return (await fs.readdir(os.tmpdir())).filter((entry) => entry.startsWith('agp-extract-'));
+  }
+
+  it('extracts the files below the archive root directory', async () => {
+    const archivePath = path.join(workPath, 'template.zip');
+    await fs.writeFile(
+      archivePath,
+      buildZip([
+        { name: 'agp-template-main/instructions.md', content: '# Instructions\n' },
+        { name: 'agp-template-main/patterns/overview.md', content: '# Patterns\n' },
+      ]),
+    );
+
+    const targetPath = path.join(workPath, 'target');
+    await downloadTemplate(archivePath, targetPath);
+
+    expect(await fs.readFile(path.join(targetPath, 'instructions.md'), 'utf8')).toBe('# Instructions\n');
+    expect(await fs.readFile(path.join(targetPath, 'patterns/overview.md'), 'utf8')).toBe('# Patterns\n');
+  });
+
+  it('rejects an entry larger than its declared size and cleans up', async () => {
+    const archivePath = path.join(workPath, 'template.zip');
+    await fs.writeFile(
+      archivePath,
+      buildZip([{ name: 'agp-template-main/instructions.md', content: 'x'.repeat(4096), declaredSize: 10 }]),
+    );
+    const extractDirsBefore = await listExtractDirs();
+
+    await expect(downloadTemplate(archivePath, path.join(workPath, 'target'))).rejects.toThrow(
+      /Failed to download template: .*too many bytes/,
+    );
+    expect(await listExtractDirs()).toEqual(extractDirsBefore);
+  });
+});
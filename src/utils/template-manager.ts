@@ -1,34 +1,109 @@
 import * as fs from 'fs-extra';
+import * as os from 'os';
 import * as path from 'path';
 import fetch from 'node-fetch';
 import * as yauzl from 'yauzl';
 import { pipeline } from 'stream';
+import * as tar from 'tar';
+import { fileURLToPath } from 'url';
 import { promisify } from 'util';
+import { createHash } from 'crypto';
+import { git } from './git';
 
 const pipelineAsync = promisify(pipeline);
 
-export async function downloadTemplate(templateUrl: string, targetPath: string): Promise<void> {
+/**
+ * A template repository plus the branch, tag or commit to use. Written as `url#ref`
+ * on the command line; without a ref the repository's default branch is used.
+ */
+export interface TemplateSource {
+  url: string;
+  ref?: string | undefined;
+}
+
+/**
+ * Split `url#ref`; an explicit `ref` (from --template-ref) wins over the URL fragment
+ */
+export function parseTemplateSource(templateUrl: string, ref?: string): TemplateSource {
+  const hashIndex = templateUrl.lastIndexOf('#');
+  const url = hashIndex >= 0 ? templateUrl.slice(0, hashIndex) : templateUrl;
+  const urlRef = hashIndex >= 0 ? templateUrl.slice(hashIndex + 1) : undefined;
+
+  return { url, ref: ref || urlRef || undefined };
+}
+
+export function formatTemplateSource(source: TemplateSource): string {
+  return source.ref ? `${source.url}#${source.ref}` : source.url;
+}
+
+/**
+ * Limits on extracted template content. Templates are a handful of markdown files, so
+ * anything far beyond this is a mistake or an archive bomb.
+ */
+const MAX_TEMPLATE_BYTES = 50 * 1024 * 1024;
+const MAX_TEMPLATE_ENTRIES = 5000;
+
+export interface TemplateDownloadOptions {
+  /**
+   * Expected SHA-256 of the template archive; only archive sources can be verified
+   */
+  sha256?: string | undefined;
+}
+
+export interface TemplateDownloadResult {
+  /**
+   * SHA-256 of the archive the template was extracted from, when it came from one
+   */
+  archiveSha256?: string;
+}
+
+export async function downloadTemplate(
+  templateUrl: string,
+  targetPath: string,
+  options: TemplateDownloadOptions = {},
+): Promise<TemplateDownloadResult> {
   // Ensure target directory doesn't exist
   if (await fs.pathExists(targetPath)) {
     await fs.remove(targetPath);
   }
 
   try {
-    // Convert git URL to ZIP download URL
-    const zipUrl = convertGitUrlToZip(templateUrl);
+    const source = parseTemplateSource(templateUrl);
 
     // Create target directory
     await fs.ensureDir(targetPath);
 
-    // Download ZIP file
-    const tempZipPath = path.join(targetPath, 'template.zip');
-    await downloadZipFile(zipUrl, tempZipPath);
-
-    // Extract ZIP file
-    await extractZipFile(tempZipPath, targetPath);
+    // Local directories and archives work offline. Known hosts serve ZIP archives; anything
+    // else (or a failed archive download, e.g. a private repository) falls back to a
+    // shallow clone with the user's git credentials
+    const localPath = resolveLocalTemplatePath(source.url);
+    const zipUrl = localPath ? null : convertGitUrlToZip(source);
+    const result: TemplateDownloadResult = {};
+    if (localPath) {
+      Object.assign(result, await copyLocalTemplate(localPath, source, targetPath, options));
+    } else if (zipUrl) {
+      try {
+        result.archiveSha256 = await downloadArchive(zipUrl, targetPath, options);
+      } catch (archiveError) {
+        // A checksum can only be verified against the archive, so never fall back to cloning
+        if (options.sha256) {
+          throw archiveError;
+        }
 
-    // Clean up
-    await fs.remove(tempZipPath);
+        await fs.emptyDir(targetPath);
+        try {
+          await cloneTemplate(source, targetPath);
+        } catch (cloneError) {
+          throw new Error(
+            `Could not download ${zipUrl} (${archiveError instanceof Error ? archiveError.message : archiveError}) ` +
+              `or clone ${source.url} (${cloneError instanceof Error ? cloneError.message : cloneError})`,
+          );
+        }
+      }
+    } else {
+      assertNoChecksum(options, source.url);
+      await cloneTemplate(source, targetPath);
+    }
 
     // Remove template-specific files that shouldn't be in user projects
     const filesToRemove = ['.github', 'README.md', 'LICENSE'];
@@ -38,14 +113,267 @@ export async function downloadTemplate(templateUrl: string, targetPath: string):
         await fs.remove(filePath);
       }
     }
+
+    return result;
   } catch (error) {
     throw new Error(`Failed to download template: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
-function convertGitUrlToZip(gitUrl: string): string {
-  // Convert various git URL formats to GitHub ZIP download URL
-  let repoUrl = gitUrl;
+async function downloadArchive(zipUrl: string, targetPath: string, options: TemplateDownloadOptions): Promise<string> {
+  // Download ZIP file
+  const tempZipPath = path.join(targetPath, 'template.zip');
+  await downloadZipFile(zipUrl, tempZipPath);
+  const archiveSha256 = await verifyArchiveChecksum(tempZipPath, options.sha256);
+
+  // Extract ZIP file
+  await extractArchive(tempZipPath, targetPath);
+
+  // Clean up
+  await fs.remove(tempZipPath);
+  return archiveSha256;
+}
+
+/**
+ * Hash an archive and compare it with the expected SHA-256, if one was given
+ */
+async function verifyArchiveChecksum(archivePath: string, expected: string | undefined): Promise<string> {
+  const hash = createHash('sha256');
+  await pipelineAsync(fs.createReadStream(archivePath), hash);
+  const actual = hash.digest('hex');
+
+  if (expected && actual !== normalizeSha256(expected)) {
+    throw new Error(`Template checksum mismatch: expected sha256 ${normalizeSha256(expected)}, got ${actual}`);
+  }
+  return actual;
+}
+
+export function normalizeSha256(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^sha256:/, '');
+}
+
+function assertNoChecksum(options: TemplateDownloadOptions, source: string): void {
+  if (options.sha256) {
+    throw new Error(`Cannot verify a checksum for ${source}: --template-sha256 requires a .zip or .tar.gz template`);
+  }
+}
+
+/**
+ * Resolve `file://` URLs and plain paths; returns null for remote sources
+ */
+export function resolveLocalTemplatePath(url: string): string | null {
+  if (url.startsWith('file://')) {
+    return fileURLToPath(url);
+  }
+
+  // Remote URLs and SSH remotes (git@host:path) are never local paths
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(url) || /^[\w.-]+@[^:/]+:/.test(url)) {
+    return null;
+  }
+
+  return path.resolve(url);
+}
+
+async function copyLocalTemplate(
+  localPath: string,
+  source: TemplateSource,
+  targetPath: string,
+  options: TemplateDownloadOptions,
+): Promise<TemplateDownloadResult> {
+  const stat = await fs.stat(localPath).catch(() => null);
+  if (!stat) {
+    throw new Error(`Template not found: ${localPath}`);
+  }
+
+  if (stat.isDirectory()) {
+    assertNoChecksum(options, localPath);
+
+    // A ref only makes sense for a local Git repository; check it out like a remote one
+    if (source.ref) {
+      await cloneTemplate({ url: localPath, ref: source.ref }, targetPath);
+      return {};
+    }
+
+    await copyTemplateTree(localPath, targetPath);
+    return {};
+  }
+
+  if (!/\.(zip|tar\.gz|tgz|tar)$/i.test(localPath)) {
+    throw new Error(`Unsupported template file ${localPath}. Use a directory, .zip, .tar.gz or .tgz file.`);
+  }
+
+  const archiveSha256 = await verifyArchiveChecksum(localPath, options.sha256);
+  await extractArchive(localPath, targetPath);
+  return { archiveSha256 };
+}
+
+/**
+ * Copy a checked-out or local template, excluding .git. Symbolic links are rejected
+ * rather than copied, since they could point anywhere on the machine.
+ */
+async function copyTemplateTree(sourcePath: string, targetPath: string): Promise<void> {
+  let entries = 0;
+  let bytes = 0;
+
+  async function checkDirectory(dirPath: string): Promise<void> {
+    for (const item of await fs.readdir(dirPath)) {
+      const fullPath = path.join(dirPath, item);
+      if (dirPath === sourcePath && item === '.git') continue;
+
+      const stat = await fs.lstat(fullPath);
+      if (stat.isSymbolicLink()) {
+        throw new Error(`Template contains a symbolic link: ${path.relative(sourcePath, fullPath)}`);
+      }
+
+      entries++;
+      bytes += stat.isFile() ? stat.size : 0;
+      assertWithinLimits(entries, bytes);
+
+      if (stat.isDirectory()) {
+        await checkDirectory(fullPath);
+      }
+    }
+  }
+
+  await checkDirectory(sourcePath);
+
+  for (const item of await fs.readdir(sourcePath)) {
+    if (item !== '.git') {
+      await fs.copy(path.join(sourcePath, item), path.join(targetPath, item));
+    }
+  }
+}
+
+function assertWithinLimits(entries: number, bytes: number): void {
+  if (entries > MAX_TEMPLATE_ENTRIES) {
+    throw new Error(`Template has more than ${MAX_TEMPLATE_ENTRIES} entries`);
+  }
+  if (bytes > MAX_TEMPLATE_BYTES) {
+    throw new Error(`Template is larger than ${MAX_TEMPLATE_BYTES / 1024 / 1024} MB uncompressed`);
+  }
+}
+
+/**
+ * Resolve an archive entry inside `extractPath`, rejecting absolute paths and `../`
+ * entries that would write outside it (zip-slip)
+ */
+function resolveEntryPath(extractPath: string, entryName: string): string {
+  const fullPath = path.resolve(extractPath, entryName);
+  const escapes = fullPath !== extractPath && !fullPath.startsWith(`${extractPath}${path.sep}`);
+
+  if (path.isAbsolute(entryName) || /^[a-zA-Z]:/.test(entryName) || escapes) {
+    throw new Error(`Template archive entry escapes the target directory: ${entryName}`);
+  }
+  return fullPath;
+}
+
+const TAR_ENTRY_TYPES = ['File', 'OldFile', 'ContiguousFile', 'Directory'];
+
+/**
+ * Validate every tarball entry before anything is written: only regular files and
+ * directories inside the target, within the size and entry limits
+ */
+async function assertSafeTarball(archivePath: string, extractPath: string): Promise<void> {
+  let entries = 0;
+  let bytes = 0;
+  let problem: Error | null = null;
+
+  await tar.t({
+    file: archivePath,
+    onReadEntry: (entry) => {
+      if (problem) return;
+
+      try {
+        if (!TAR_ENTRY_TYPES.includes(entry.type)) {
+          throw new Error(`Template archive contains a ${entry.type} entry, which is not allowed: ${entry.path}`);
+        }
+        resolveEntryPath(extractPath, entry.path);
+
+        entries++;
+        bytes += entry.size || 0;
+        assertWithinLimits(entries, bytes);
+      } catch (error) {
+        problem = error instanceof Error ? error : new Error(String(error));
+      }
+    },
+  });
+
+  if (problem) {
+    throw problem;
+  }
+}
+
+/**
+ * Extract a .zip or tarball into `targetPath`. Archives from Git hosts (and most hand-made
+ * ones) wrap everything in a single top-level directory, which is stripped.
+ */
+async function extractArchive(archivePath: string, targetPath: string): Promise<void> {
+  const stagingDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agp-extract-'));
+
+  try {
+    if (/\.zip$/i.test(archivePath)) {
+      await extractZipFile(archivePath, stagingDir);
+    } else {
+      await assertSafeTarball(archivePath, stagingDir);
+      await tar.x({
+        file: archivePath,
+        cwd: stagingDir,
+        filter: (_entryPath, entry) => 'type' in entry && TAR_ENTRY_TYPES.includes(entry.type),
+      });
+    }
+
+    const entries = await fs.readdir(stagingDir);
+    const singleRoot = entries.length === 1 ? path.join(stagingDir, entries[0]!) : null;
+    const rootPath = singleRoot && (await fs.stat(singleRoot)).isDirectory() ? singleRoot : stagingDir;
+
+    for (const item of await fs.readdir(rootPath)) {
+      await fs.move(path.join(rootPath, item), path.join(targetPath, item), { overwrite: true });
+    }
+  } finally {
+    await fs.remove(stagingDir);
+  }
+}
+
+/**
+ * Map a repository URL to its host's ZIP archive URL. Returns null for hosts without a
+ * known archive scheme, which are cloned instead.
+ */
+function convertGitUrlToZip(source: TemplateSource): string | null {
+  const repoUrl = toHttpsRepoUrl(source.url);
+  if (!repoUrl) {
+    return null;
+  }
+
+  const { hostname, pathname } = new URL(repoUrl);
+  const repoName = pathname.split('/').filter(Boolean).pop() || 'template';
+  // Archive URLs need a concrete ref; a wrong guess falls back to cloning the default branch
+  const ref = source.ref || 'main';
+
+  if (hostname === 'github.com') {
+    return `${repoUrl}/archive/${ref}.zip`;
+  }
+  if (hostname.includes('gitlab')) {
+    return `${repoUrl}/-/archive/${ref}/${repoName}-${ref.replace(/\//g, '-')}.zip`;
+  }
+  if (hostname === 'bitbucket.org') {
+    return `${repoUrl}/get/${ref}.zip`;
+  }
+  if (hostname === 'codeberg.org' || hostname.includes('gitea') || hostname.includes('forgejo')) {
+    return `${repoUrl}/archive/${ref}.zip`;
+  }
+
+  return null;
+}
+
+/**
+ * Normalize https and SSH remotes (git@host:group/repo.git, ssh://git@host/group/repo)
+ * to https://host/group/repo
+ */
+function toHttpsRepoUrl(gitUrl: string): string | null {
+  let repoUrl = gitUrl.replace(/\/+$/, '');
 
   // Remove .git suffix if present
   if (repoUrl.endsWith('.git')) {
@@ -53,17 +381,34 @@ function convertGitUrlToZip(gitUrl: string): string {
   }
 
   // Convert SSH URL to HTTPS
-  if (repoUrl.startsWith('git@github.com:')) {
-    repoUrl = repoUrl.replace('git@github.com:', 'https://github.com/');
+  const scpLike = repoUrl.match(/^[\w.-]+@([^:/]+):(.+)$/);
+  if (scpLike) {
+    repoUrl = `https://${scpLike[1]}/${scpLike[2]}`;
+  } else if (repoUrl.startsWith('ssh://')) {
+    const sshUrl = new URL(repoUrl);
+    repoUrl = `https://${sshUrl.hostname}${sshUrl.pathname}`;
   }
 
-  // Ensure it's a GitHub URL
-  if (!repoUrl.includes('github.com')) {
-    throw new Error('Only GitHub repositories are supported');
-  }
+  return /^https?:\/\//.test(repoUrl) ? repoUrl : null;
+}
 
-  // Convert to ZIP download URL
-  return `${repoUrl}/archive/refs/heads/main.zip`;
+/**
+ * Shallow-fetch a single ref. Fetching by name works for branches, tags and (on most
+ * servers) commit hashes, which `git clone --branch` cannot do.
+ */
+async function cloneTemplate(source: TemplateSource, targetPath: string): Promise<void> {
+  const cloneDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agp-template-'));
+
+  try {
+    await git(['init', '-q'], cloneDir);
+    await git(['remote', 'add', 'origin', source.url], cloneDir);
+    await git(['fetch', '--depth', '1', 'origin', source.ref || 'HEAD'], cloneDir);
+    await git(['checkout', '-q', 'FETCH_HEAD'], cloneDir);
+
+    await copyTemplateTree(cloneDir, targetPath);
+  } finally {
+    await fs.remove(cloneDir);
+  }
 }
 
 async function downloadZipFile(zipUrl: string, outputPath: string): Promise<void> {
@@ -89,11 +434,24 @@ async function extractZipFile(zipPath: string, extractPath: string): Promise<voi
         return;
       }
 
+      let failed = false;
+      const fail = (error: Error) => {
+        if (failed) return;
+        failed = true;
+        // With autoClose, yauzl closes the file itself once the last entry was read
+        if (zipfile.isOpen) zipfile.close();
+        reject(error);
+      };
+
+      let entries = 0;
+      let bytes = 0;
       let pendingEntries = 0;
+      let ended = false;
       let completed = false;
 
+      // Resolve only once every entry has been read and every file written
       const complete = () => {
-        if (!completed && pendingEntries === 0) {
+        if (!completed && ended && pendingEntries === 0) {
           completed = true;
           resolve();
         }
@@ -102,28 +460,44 @@ async function extractZipFile(zipPath: string, extractPath: string): Promise<voi
       zipfile.readEntry();
 
       zipfile.on('entry', (entry) => {
-        // Skip the root directory (e.g., "agp-template-main/")
-        const relativePath = entry.fileName.split('/').slice(1).join('/');
+        // The archive's root directory (e.g., "agp-template-main/") is stripped by extractArchive
+        const relativePath = entry.fileName;
 
         if (!relativePath) {
           zipfile.readEntry();
           return;
         }
 
-        const fullPath = path.join(extractPath, relativePath);
+        let fullPath: string;
+        try {
+          fullPath = resolveEntryPath(extractPath, relativePath);
+
+          // Unix mode bits live in the high half of the external attributes
+          if (((entry.externalFileAttributes >>> 16) & 0o170000) === 0o120000) {
+            throw new Error(`Template archive contains a symbolic link, which is not allowed: ${relativePath}`);
+          }
+
+          // yauzl checks the declared sizes while decompressing
+          entries++;
+          bytes += entry.uncompressedSize;
+          assertWithinLimits(entries, bytes);
+        } catch (error) {
+          fail(error instanceof Error ? error : new Error(String(error)));
+          return;
+        }
 
         if (/\/$/.test(entry.fileName)) {
           // Directory entry
           fs.ensureDir(fullPath)
             .then(() => zipfile.readEntry())
-            .catch(reject);
+            .catch(fail);
         } else {
           // File entry
           pendingEntries++;
 
           zipfile.openReadStream(entry, (err, readStream) => {
             if (err || !readStream) {
-              reject(err || new Error('Failed to open read stream'));
+              fail(err || new Error('Failed to open read stream'));
               return;
             }
 
@@ -132,22 +506,35 @@ async function extractZipFile(zipPath: string, extractPath: string): Promise<voi
               .then(() => {
                 const writeStream = fs.createWriteStream(fullPath);
 
+                // A corrupt entry (e.g. one larger than its declared size) fails the read stream
+                const abort = (error: Error) => {
+                  readStream.unpipe(writeStream);
+                  readStream.destroy();
+                  writeStream.destroy();
+                  fail(error);
+                };
+                readStream.on('error', abort);
+                writeStream.on('error', abort);
+
                 writeStream.on('close', () => {
+                  if (failed) return;
                   pendingEntries--;
                   complete();
                   zipfile.readEntry();
                 });
 
-                writeStream.on('error', reject);
                 readStream.pipe(writeStream);
               })
-              .catch(reject);
+              .catch(fail);
           });
         }
       });
 
-      zipfile.on('end', complete);
-      zipfile.on('error', reject);
+      zipfile.on('end', () => {
+        ended = true;
+        complete();
+      });
+      zipfile.on('error', fail);
     });
   });
 }
@@ -0,0 +1,230 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ProjectInfo, TemplateManifest, TemplatePrompt } from '../types';
+import { isRecord, isStringArray } from './json';
+
+export const TEMPLATE_MANIFEST_FILE = 'agp-template.json';
+
+/**
+ * What the default agp-template provides; used for templates without a manifest
+ */
+export const DEFAULT_TEMPLATE_MANIFEST: TemplateManifest = {
+  requiredFiles: ['instructions.md', 'architecture/overview.md', 'patterns/overview.md'],
+  requiredDirs: ['architecture', 'patterns'],
+  prompts: [],
+};
+
+/**
+ * `{{name}}` or `{{ name }}`
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Only text files are scanned for placeholders
+ */
+const TEXT_FILE_EXTENSIONS = ['.md', '.mdc', '.txt', '.json', '.yml', '.yaml'];
+
+/**
+ * Read the manifest of a template or an initialized .agp directory, falling back to the
+ * default template's layout when there is none
+ */
+export async function readTemplateManifest(dirPath: string): Promise<TemplateManifest> {
+  const manifestPath = path.join(dirPath, TEMPLATE_MANIFEST_FILE);
+  if (!(await fs.pathExists(manifestPath))) {
+    return DEFAULT_TEMPLATE_MANIFEST;
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await fs.readFile(manifestPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid ${TEMPLATE_MANIFEST_FILE}: ${error instanceof Error ? error.message : 'not JSON'}`);
+  }
+
+  return parseTemplateManifest(manifest);
+}
+
+function parseTemplateManifest(manifest: unknown): TemplateManifest {
+  const invalid = (message: string) => new Error(`Invalid ${TEMPLATE_MANIFEST_FILE}: ${message}`);
+  if (!isRecord(manifest)) {
+    throw invalid('must be a JSON object');
+  }
+
+  const readPaths = (key: 'requiredFiles' | 'requiredDirs'): string[] => {
+    const value = manifest[key] ?? [];
+    if (!isStringArray(value)) {
+      throw invalid(`"${key}" must be an array of paths`);
+    }
+    for (const item of value) {
+      if (path.isAbsolute(item) || item.split(/[\\/]/).includes('..')) {
+        throw invalid(`"${key}" must only contain paths inside .agp, got "${item}"`);
+      }
+    }
+    return value;
+  };
+
+  const prompts = manifest['prompts'] ?? [];
+  if (!Array.isArray(prompts)) {
+    throw invalid('"prompts" must be an array');
+  }
+
+  const result: TemplateManifest = {
+    requiredFiles: readPaths('requiredFiles'),
+    requiredDirs: readPaths('requiredDirs'),
+    prompts: prompts.map((prompt: unknown, index): TemplatePrompt => {
+      if (!isRecord(prompt) || typeof prompt.name !== 'string' || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(prompt.name)) {
+        throw invalid(`prompt ${index + 1} needs a "name" made of letters, digits and underscores`);
+      }
+      if (prompt.message !== undefined && typeof prompt.message !== 'string') {
+        throw invalid(`"message" of prompt "${prompt.name}" must be a string`);
+      }
+      if (prompt.choices !== undefined && !Array.isArray(prompt.choices)) {
+        throw invalid(`"choices" of prompt "${prompt.name}" must be an array`);
+      }
+
+      const parsed: TemplatePrompt = { name: prompt.name, message: prompt.message || prompt.name };
+      if (prompt.default !== undefined) parsed.default = String(prompt.default);
+      if (prompt.choices) parsed.choices = prompt.choices.map(String);
+      return parsed;
+    }),
+  };
+  if (typeof manifest['name'] === 'string') result.name = manifest['name'];
+  if (typeof manifest['description'] === 'string') result.description = manifest['description'];
+  return result;
+}
+
+/**
+ * Variables every template can use, taken from the detected project
+ */
+export function getProjectVariables(projectPath: string, projectInfo: ProjectInfo): Record<string, string> {
+  const variables: Record<string, string> = {
+    projectName: path.basename(projectPath),
+    projectType: projectInfo.type,
+  };
+  if (projectInfo.language) variables['language'] = projectInfo.language;
+  if (projectInfo.framework) variables['framework'] = projectInfo.framework;
+  if (projectInfo.toolchain?.packageManager) variables['packageManager'] = projectInfo.toolchain.packageManager;
+  return variables;
+}
+
+/**
+ * Answer the manifest's prompts. Values passed with `--var` are used as-is; the rest are
+ * asked interactively, or take their default when there is no terminal to ask on.
+ */
+export async function resolveTemplateVariables(
+  manifest: TemplateManifest,
+  projectVariables: Record<string, string>,
+  provided: Record<string, string> = {},
+): Promise<Record<string, string>> {
+  const variables = { ...projectVariables, ...provided };
+  const unanswered = manifest.prompts.filter((prompt) => provided[prompt.name] === undefined);
+
+  if (unanswered.length === 0) {
+    return variables;
+  }
+
+  if (!process.stdin.isTTY) {
+    for (const prompt of unanswered) {
+      const value = prompt.default ?? projectVariables[prompt.name];
+      if (value === undefined) {
+        throw new Error(
+          `Template variable "${prompt.name}" has no default. Pass it with --var ${prompt.name}=<value>.`,
+        );
+      }
+      variables[prompt.name] = value;
+    }
+    return variables;
+  }
+
+  const inquirer = await import('inquirer');
+  for (const prompt of unanswered) {
+    const defaultValue = prompt.default ?? projectVariables[prompt.name] ?? '';
+    const answers = prompt.choices
+      ? await inquirer.default.prompt([
+          { type: 'list', name: 'value', message: prompt.message, choices: prompt.choices, default: defaultValue },
+        ])
+      : await inquirer.default.prompt([
+          { type: 'input', name: 'value', message: prompt.message, default: defaultValue },
+        ]);
+
+    variables[prompt.name] = String(answers.value ?? '');
+  }
+  return variables;
+}
+
+/**
+ * Replace `{{name}}` placeholders; unknown names are left in place
+ */
+export function renderPlaceholders(content: string, variables: Record<string, string>): string {
+  return content.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => variables[name] ?? placeholder);
+}
+
+export function isTemplateTextFile(filePath: string): boolean {
+  return (
+    path.basename(filePath) !== TEMPLATE_MANIFEST_FILE &&
+    TEXT_FILE_EXTENSIONS.includes(path.extname(filePath).toLowerCase())
+  );
+}
+
+/**
+ * Fill in placeholders across a copied template and return the names no value was
+ * given for
+ */
+export async function renderTemplateFiles(dirPath: string, variables: Record<string, string>): Promise<string[]> {
+  const unresolved = new Set<string>();
+
+  async function renderDirectory(currentPath: string): Promise<void> {
+    for (const item of await fs.readdir(currentPath)) {
+      const fullPath = path.join(currentPath, item);
+      const stat = await fs.stat(fullPath);
+
+      if (stat.isDirectory()) {
+        await renderDirectory(fullPath);
+      } else if (isTemplateTextFile(fullPath)) {
+        const content = await fs.readFile(fullPath, 'utf8');
+        const rendered = renderPlaceholders(content, variables);
+
+        for (const match of rendered.matchAll(PLACEHOLDER_PATTERN)) {
+          unresolved.add(match[1]!);
+        }
+        if (rendered !== content) {
+          await fs.writeFile(fullPath, rendered);
+        }
+      }
+    }
+  }
+
+  await renderDirectory(dirPath);
+  return [...unresolved].sort();
+}
+
+export interface PlaceholderProblem {
+  line: number;
+  text: string;
+  /**
+   * malformed: not a `{{name}}` placeholder; unknown: no prompt or project variable provides it
+   */
+  kind: 'malformed' | 'unknown';
+}
+
+/**
+ * Find `{{` sequences that will not render: malformed ones, and names nothing provides
+ */
+export function findPlaceholderProblems(content: string, knownNames: string[]): PlaceholderProblem[] {
+  const problems: PlaceholderProblem[] = [];
+
+  content.split('\n').forEach((line, index) => {
+    for (const match of line.matchAll(/\{\{/g)) {
+      const placeholder = line.slice(match.index).match(/^\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/);
+      if (!placeholder) {
+        const close = line.indexOf('}}', match.index);
+        const text = line.slice(match.index, close >= 0 ? close + 2 : undefined).slice(0, 40);
+        problems.push({ line: index + 1, text, kind: 'malformed' });
+      } else if (!knownNames.includes(placeholder[1]!)) {
+        problems.push({ line: index + 1, text: placeholder[0], kind: 'unknown' });
+      }
+    }
+  });
+
+  return problems;
+}
@@ -0,0 +1,269 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ToolchainInfo } from '../types';
+import { parseJsonc } from './dependency-graph';
+import { isRecord } from './json';
+
+/**
+ * Lockfiles in order of precedence; the first one present names the package manager
+ */
+const LOCKFILES: Array<[string, string]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'Yarn'],
+  ['bun.lock', 'Bun'],
+  ['bun.lockb', 'Bun'],
+  ['package-lock.json', 'npm'],
+  ['poetry.lock', 'Poetry'],
+  ['uv.lock', 'uv'],
+  ['Pipfile.lock', 'Pipenv'],
+  ['Cargo.lock', 'Cargo'],
+  ['go.sum', 'Go modules'],
+  ['Gemfile.lock', 'Bundler'],
+  ['composer.lock', 'Composer'],
+  ['pubspec.lock', 'pub'],
+];
+
+const CI_PROVIDERS: Array<[string, string]> = [
+  ['.github/workflows', 'GitHub Actions'],
+  ['.gitlab-ci.yml', 'GitLab CI'],
+  ['.circleci/config.yml', 'CircleCI'],
+  ['azure-pipelines.yml', 'Azure Pipelines'],
+  ['bitbucket-pipelines.yml', 'Bitbucket Pipelines'],
+  ['Jenkinsfile', 'Jenkins'],
+  ['.travis.yml', 'Travis CI'],
+];
+
+/**
+ * Strictness flags worth telling an assistant about beyond `strict` itself
+ */
+const TYPESCRIPT_FLAGS = [
+  'noUncheckedIndexedAccess',
+  'exactOptionalPropertyTypes',
+  'noImplicitOverride',
+  'noPropertyAccessFromIndexSignature',
+  'noUnusedLocals',
+  'noUnusedParameters',
+];
+
+/**
+ * Detect how a project is installed, built, tested and checked, from its lockfiles,
+ * manifests, tool config files and CI setup
+ */
+export async function detectToolchain(projectPath: string): Promise<ToolchainInfo> {
+  const exists = (fileName: string) => fs.pathExists(path.join(projectPath, fileName));
+  const readText = async (fileName: string) =>
+    (await exists(fileName)) ? await fs.readFile(path.join(projectPath, fileName), 'utf8') : '';
+
+  const packageJson = await readJson(path.join(projectPath, 'package.json'));
+  const deps = { ...recordField(packageJson, 'dependencies'), ...recordField(packageJson, 'devDependencies') };
+  const pythonManifests = [
+    await readText('pyproject.toml'),
+    await readText('requirements.txt'),
+    await readText('requirements-dev.txt'),
+    await readText('setup.cfg'),
+  ].join('\n');
+  const goMod = await readText('go.mod');
+  const hasCargo = await exists('Cargo.toml');
+
+  const toolchain: ToolchainInfo = {
+    testFrameworks: [],
+    linters: [],
+    formatters: [],
+    ciProviders: [],
+    commands: {},
+  };
+
+  // Package manager: the packageManager field is authoritative, lockfiles otherwise
+  const packageManagerField = packageJson?.['packageManager'];
+  if (typeof packageManagerField === 'string') {
+    const [name, version] = packageManagerField.split('+')[0]!.split('@');
+    toolchain.packageManager = version ? `${name} ${version}` : name;
+  } else {
+    for (const [lockfile, name] of LOCKFILES) {
+      if (await exists(lockfile)) {
+        toolchain.packageManager = name;
+        break;
+      }
+    }
+    // No lockfile committed: fall back to the manifest's default tool
+    if (!toolchain.packageManager) {
+      if (packageJson) toolchain.packageManager = 'npm';
+      else if (goMod) toolchain.packageManager = 'Go modules';
+      else if (hasCargo) toolchain.packageManager = 'Cargo';
+      else if (await exists('requirements.txt')) toolchain.packageManager = 'pip';
+    }
+  }
+
+  // Test frameworks
+  const jsTestFrameworks: Record<string, string> = {
+    vitest: 'Vitest',
+    jest: 'Jest',
+    mocha: 'Mocha',
+    '@playwright/test': 'Playwright',
+    cypress: 'Cypress',
+  };
+  for (const [dependency, name] of Object.entries(jsTestFrameworks)) {
+    if (deps[dependency]) toolchain.testFrameworks.push(name);
+  }
+  if (/\bpytest\b/i.test(pythonManifests) || (await exists('pytest.ini')) || (await exists('conftest.py'))) {
+    toolchain.testFrameworks.push('pytest');
+  }
+  if (goMod) toolchain.testFrameworks.push('go test');
+  if (hasCargo) toolchain.testFrameworks.push('cargo test');
+
+  // Linters and formatters, from dependencies or their config files
+  const hasConfig = async (...fileNames: string[]) => {
+    for (const fileName of fileNames) {
+      if (await exists(fileName)) return true;
+    }
+    return false;
+  };
+
+  if (
+    deps['eslint'] ||
+    (await hasConfig('eslint.config.js', 'eslint.config.mjs', 'eslint.config.cjs', 'eslint.config.ts')) ||
+    (await hasConfig('.eslintrc', '.eslintrc.js', '.eslintrc.cjs', '.eslintrc.json', '.eslintrc.yml'))
+  ) {
+    toolchain.linters.push('ESLint');
+  }
+  const hasBiome = !!deps['@biomejs/biome'] || (await hasConfig('biome.json', 'biome.jsonc'));
+  if (hasBiome) toolchain.linters.push('Biome');
+  if (deps['oxlint']) toolchain.linters.push('oxlint');
+  if (/\[tool\.ruff/.test(pythonManifests) || (await hasConfig('ruff.toml', '.ruff.toml'))) {
+    toolchain.linters.push('Ruff');
+  }
+  if (/\bflake8\b/.test(pythonManifests) || (await exists('.flake8'))) toolchain.linters.push('Flake8');
+  if (/\bmypy\b/.test(pythonManifests) || (await exists('mypy.ini'))) toolchain.linters.push('mypy');
+  if (await hasConfig('.golangci.yml', '.golangci.yaml', '.golangci.toml')) toolchain.linters.push('golangci-lint');
+  if (hasCargo) toolchain.linters.push('Clippy');
+  if (await exists('.rubocop.yml')) toolchain.linters.push('RuboCop');
+
+  if (
+    deps['prettier'] ||
+    packageJson?.['prettier'] ||
+    (await hasConfig('.prettierrc', '.prettierrc.json', '.prettierrc.js', '.prettierrc.cjs', '.prettierrc.yml')) ||
+    (await hasConfig('prettier.config.js', 'prettier.config.cjs', 'prettier.config.mjs'))
+  ) {
+    toolchain.formatters.push('Prettier');
+  }
+  if (hasBiome) toolchain.formatters.push('Biome');
+  if (/\bblack\b/.test(pythonManifests)) toolchain.formatters.push('Black');
+  if (/\[tool\.ruff\.format\]/.test(pythonManifests)) toolchain.formatters.push('Ruff');
+  if (goMod) toolchain.formatters.push('gofmt');
+  if (hasCargo) toolchain.formatters.push('rustfmt');
+
+  // TypeScript compiler strictness
+  if (await exists('tsconfig.json')) {
+    const compilerOptions = await readCompilerOptions(path.join(projectPath, 'tsconfig.json'));
+    const version = deps['typescript'];
+    toolchain.typescript = {
+      version: typeof version === 'string' ? version : undefined,
+      strict: compilerOptions['strict'] === true,
+      flags: TYPESCRIPT_FLAGS.filter((flag) => compilerOptions[flag] === true),
+    };
+  }
+
+  // CI providers
+  for (const [configPath, name] of CI_PROVIDERS) {
+    if (await exists(configPath)) toolchain.ciProviders.push(name);
+  }
+
+  // Runtime version
+  const engineVersion = recordField(packageJson, 'engines')['node'];
+  const nodeVersion =
+    (typeof engineVersion === 'string' && engineVersion) ||
+    (await readText('.nvmrc')) ||
+    (await readText('.node-version'));
+  const pythonVersion =
+    (await readText('.python-version')) || pythonManifests.match(/requires-python\s*=\s*["']([^"']+)["']/)?.[1];
+  const goVersion = goMod.match(/^go\s+(\S+)/m)?.[1];
+  const rustVersion = (await readText('rust-toolchain.toml')).match(/channel\s*=\s*["']([^"']+)["']/)?.[1];
+  const rubyVersion = await readText('.ruby-version');
+
+  if (nodeVersion) {
+    toolchain.runtime = `Node.js ${nodeVersion.trim()}`;
+  } else if (pythonVersion) {
+    toolchain.runtime = `Python ${pythonVersion.trim()}`;
+  } else if (goVersion) {
+    toolchain.runtime = `Go ${goVersion}`;
+  } else if (rustVersion) {
+    toolchain.runtime = `Rust ${rustVersion}`;
+  } else if (rubyVersion) {
+    toolchain.runtime = `Ruby ${rubyVersion.trim()}`;
+  }
+
+  // Commands an assistant can run without asking
+  const scripts = recordField(packageJson, 'scripts');
+  const runner = getScriptRunner(toolchain.packageManager);
+  for (const script of ['dev', 'build', 'test', 'lint', 'typecheck', 'format']) {
+    if (scripts[script]) {
+      toolchain.commands[script] = script === 'test' && runner === 'npm run' ? 'npm test' : `${runner} ${script}`;
+    }
+  }
+  if (goMod) {
+    toolchain.commands['build'] ??= 'go build ./...';
+    toolchain.commands['test'] ??= 'go test ./...';
+  }
+  if (hasCargo) {
+    toolchain.commands['build'] ??= 'cargo build';
+    toolchain.commands['test'] ??= 'cargo test';
+    toolchain.commands['lint'] ??= 'cargo clippy';
+  }
+  if (toolchain.testFrameworks.includes('pytest')) {
+    toolchain.commands['test'] ??= toolchain.packageManager === 'Poetry' ? 'poetry run pytest' : 'pytest';
+  }
+
+  return toolchain;
+}
+
+function getScriptRunner(packageManager: string | undefined): string {
+  const name = packageManager?.split(' ')[0]?.toLowerCase();
+  if (name === 'pnpm') return 'pnpm';
+  if (name === 'yarn') return 'yarn';
+  if (name === 'bun') return 'bun run';
+  return 'npm run';
+}
+
+/**
+ * Compiler options of a tsconfig, following relative `extends` so shared base configs count
+ */
+async function readCompilerOptions(tsconfigPath: string, depth = 0): Promise<Record<string, unknown>> {
+  try {
+    const tsconfig = parseJsonc(await fs.readFile(tsconfigPath, 'utf8'));
+    if (!isRecord(tsconfig)) {
+      return {};
+    }
+    const extendsPaths = [tsconfig.extends || []].flat().filter((entry) => typeof entry === 'string');
+
+    let compilerOptions: Record<string, unknown> = {};
+    for (const extendsPath of extendsPaths) {
+      if (depth < 5 && extendsPath.startsWith('.')) {
+        const basePath = path.resolve(path.dirname(tsconfigPath), extendsPath);
+        const resolvedPath = basePath.endsWith('.json') ? basePath : `${basePath}.json`;
+        compilerOptions = { ...compilerOptions, ...(await readCompilerOptions(resolvedPath, depth + 1)) };
+      }
+    }
+
+    return { ...compilerOptions, ...(isRecord(tsconfig.compilerOptions) ? tsconfig.compilerOptions : {}) };
+  } catch (error) {
+    return {};
+  }
+}
+
+async function readJson(filePath: string): Promise<Record<string, unknown> | null> {
+  try {
+    const json: unknown = await fs.readJson(filePath);
+    return isRecord(json) ? json : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * An object-valued field such as `scripts` or `devDependencies`, or an empty object when
+ * it is missing or malformed
+ */
+function recordField(json: Record<string, unknown> | null, field: string): Record<string, unknown> {
+  const value = json?.[field];
+  return isRecord(value) ? value : {};
+}
@@ -0,0 +1,147 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { isRecord, isStringArray } from './json';
+import { createScopeFilter, listProjectFiles } from './scan-scope';
+
+/**
+ * Workspace declaration found at the project root: which tools declare it and the
+ * package directories (relative, forward slashes) that belong to it.
+ */
+export interface WorkspaceManifest {
+  tools: string[];
+  packageDirs: string[];
+}
+
+/**
+ * Discover monorepo packages declared by pnpm-workspace.yaml, package.json `workspaces`,
+ * lerna.json and Nx project.json files. Turborepo has no package list of its own and
+ * relies on the package manager's workspaces, so it is only recorded as a tool.
+ */
+export async function discoverWorkspace(projectPath: string): Promise<WorkspaceManifest | null> {
+  const tools: string[] = [];
+  const patterns: string[] = [];
+  let includeNxProjects = false;
+
+  const pnpmWorkspacePath = path.join(projectPath, 'pnpm-workspace.yaml');
+  if (await fs.pathExists(pnpmWorkspacePath)) {
+    tools.push('pnpm');
+    patterns.push(...parsePnpmWorkspacePackages(await fs.readFile(pnpmWorkspacePath, 'utf8')));
+  }
+
+  const packageJson = await readJsonIfExists(path.join(projectPath, 'package.json'));
+  const packageWorkspaces = packageJson?.['workspaces'];
+  // Either a list of patterns or, with Yarn's nohoist, { packages: [...] }
+  const workspacePatterns: unknown = isRecord(packageWorkspaces) ? packageWorkspaces['packages'] : packageWorkspaces;
+  if (Array.isArray(workspacePatterns)) {
+    tools.push((await fs.pathExists(path.join(projectPath, 'yarn.lock'))) ? 'Yarn' : 'npm');
+    patterns.push(...workspacePatterns.filter((pattern: unknown): pattern is string => typeof pattern === 'string'));
+  }
+
+  const lernaJson = await readJsonIfExists(path.join(projectPath, 'lerna.json'));
+  if (lernaJson) {
+    tools.push('Lerna');
+    const lernaPackages = lernaJson['packages'];
+    patterns.push(...(isStringArray(lernaPackages) ? lernaPackages : ['packages/*']));
+  }
+
+  if (await fs.pathExists(path.join(projectPath, 'nx.json'))) {
+    tools.push('Nx');
+    includeNxProjects = true;
+  }
+
+  if (await fs.pathExists(path.join(projectPath, 'turbo.json'))) {
+    tools.push('Turborepo');
+  }
+
+  if (tools.length === 0) {
+    return null;
+  }
+
+  const include = patterns.filter((pattern) => !pattern.startsWith('!')).map(globToRegExp);
+  const exclude = patterns
+    .filter((pattern) => pattern.startsWith('!'))
+    .map((pattern) => globToRegExp(pattern.slice(1)));
+
+  const filter = await createScopeFilter(projectPath);
+  const packageDirs = new Set<string>();
+
+  for (const file of await listProjectFiles(projectPath, filter)) {
+    const fileName = path.posix.basename(file);
+    const dir = path.posix.dirname(file);
+    if (dir === '.') continue;
+
+    const declared = fileName === 'package.json' && include.some((pattern) => pattern.test(dir));
+    const nxProject = includeNxProjects && fileName === 'project.json';
+    if ((declared || nxProject) && !exclude.some((pattern) => pattern.test(dir))) {
+      packageDirs.add(dir);
+    }
+  }
+
+  return { tools, packageDirs: [...packageDirs].sort() };
+}
+
+/**
+ * Read the `packages` list from pnpm-workspace.yaml without a YAML parser; the file
+ * only ever holds a flat list of globs.
+ */
+function parsePnpmWorkspacePackages(content: string): string[] {
+  const patterns: string[] = [];
+  const unquote = (value: string) => value.trim().replace(/^(['"])(.*)\1$/, '$2');
+  let inPackages = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    const stripped = line.replace(/(^|\s)#.*$/, '').trimEnd();
+
+    const inline = stripped.match(/^packages:\s*\[(.*)\]$/);
+    if (inline) {
+      patterns.push(...(inline[1] || '').split(',').map(unquote).filter(Boolean));
+      inPackages = false;
+      continue;
+    }
+
+    if (/^packages:$/.test(stripped)) {
+      inPackages = true;
+      continue;
+    }
+
+    if (inPackages) {
+      const item = stripped.match(/^\s*-\s*(.+)$/);
+      if (item) {
+        patterns.push(unquote(item[1] || ''));
+      } else if (/^\S/.test(stripped)) {
+        inPackages = false;
+      }
+    }
+  }
+
+  return patterns.filter(Boolean);
+}
+
+/**
+ * Workspace globs match directories: `*` stays within a segment, `**` spans segments
+ */
+function globToRegExp(pattern: string): RegExp {
+  const segments = pattern
+    .replace(/^\.\//, '')
+    .replace(/\/+$/, '')
+    .split('/')
+    .map((segment) =>
+      segment === '**'
+        ? '.*'
+        : segment
+            .split(/([*?])/)
+            .map((part) => (part === '*' ? '[^/]*' : part === '?' ? '[^/]' : part.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+            .join(''),
+    );
+
+  return new RegExp(`^${segments.join('/')}$`);
+}
+
+async function readJsonIfExists(filePath: string): Promise<Record<string, unknown> | null> {
+  try {
+    const json: unknown = await fs.readJson(filePath);
+    return isRecord(json) ? json : null;
+  } catch (error) {
+    return null;
+  }
+}